@@ -1,11 +1,23 @@
 import {
   App,
+  Editor,
+  EditorPosition,
+  EditorSuggest,
+  EditorSuggestContext,
+  EditorSuggestTriggerInfo,
+  FuzzySuggestModal,
+  ItemView,
+  MarkdownView,
   Modal,
   Notice,
   Plugin,
   PluginSettingTab,
   Setting,
+  TAbstractFile,
   TFile,
+  TFolder,
+  WorkspaceLeaf,
+  moment,
   normalizePath,
   stringifyYaml,
   parseYaml,
@@ -13,30 +25,166 @@ import {
 
 type TypeName = string;
 
+type PropertyType = "text" | "number" | "date" | "list" | "link" | "checkbox";
+
+const PROPERTY_TYPES: PropertyType[] = ["text", "number", "date", "list", "link", "checkbox"];
+
+type ComputedKind = "modified" | "word_count" | "backlinks" | "age";
+
+const COMPUTED_KINDS: ComputedKind[] = ["modified", "word_count", "backlinks", "age"];
+const DEFAULT_AGE_SOURCE = "born";
+
+interface PropertyDefinition {
+  type?: PropertyType; // unset = any value
+  default?: any;       // written when a note gains the key; strings may contain {{tokens}}
+  required?: boolean;  // a blank or missing value is a violation
+  pattern?: string;    // regular expression every value (or list item) must match
+  allowedValues?: any[]; // every value (or list item) must be one of these
+  computed?: ComputedKind; // value maintained by TypeSync; user edits are overwritten
+  computedFrom?: string;   // source key for "age" (defaults to "born")
+}
+
+type TransformKind = "split" | "list" | "ratio" | "link" | "rename";
+
+const TRANSFORM_LABELS: Record<TransformKind, string> = {
+  split: "Split into keys",
+  list: "Wrap in a list",
+  ratio: "Ratio to number",
+  link: "Text to [[link]]",
+  rename: "Rename key", // recorded by "Rename Property in Type…", applied as a key rename
+};
+const DEFAULT_SPLIT_SEPARATOR = ",";
+
+interface ValueTransform {
+  kind: TransformKind;
+  key: string;         // property whose value is transformed (the source, for "split")
+  into?: string[];     // "split": keys receiving the parts, in order; "rename": the new key
+  separator?: string;  // "split": defaults to ","
+  onConflict?: RenameConflict; // "rename": when the note already has the new key
+}
+
+// Transforms recorded at the schema revision that introduced them; notes still
+// marked with an older revision get them when they are next rewritten.
+interface SchemaMigration {
+  rev: SchemaRevision;
+  transforms: ValueTransform[];
+}
+
 interface TypeSchema {
   keysOrdered: string[]; // includes "Type"
   rev: SchemaRevision;
   lastChangeSummary?: SchemaChangeSummary;
+  properties?: Record<string, PropertyDefinition>;
+  extends?: TypeName; // parent Type; its keys come before this Type's own keys
+  history?: SchemaHistoryEntry[]; // oldest first, capped at MAX_SCHEMA_HISTORY
+  include?: string[]; // path globs this Type is limited to; empty or missing means anywhere
+  exclude?: string[]; // path globs where notes are never treated as this Type
+  newNoteFolder?: string; // where "New note of Type…" creates notes; tokens allowed
+  newNoteName?: string; // file name pattern for new notes, e.g. "{{date}} {{type}}"
+  migrations?: SchemaMigration[]; // oldest first, capped at MAX_SCHEMA_HISTORY
 }
 
 export interface TypeSyncSettings {
   mySetting: string;
   syncOrder: boolean;
   syncPropertyRemovals: boolean;
+  typeKeys: string[];                   // checked in order; the first one is written when a note gains a Type
+  typeTagPrefix: string;                // e.g. "type/"; empty disables tag-derived types
+  typeFolders: Record<string, TypeName>; // folder path -> Type for notes without a type key or tag
+  multiTypePrecedence: "first" | "last"; // which Type wins when a multi-typed note's schemas disagree
+  schemaNotesFolder: string;            // e.g. "_types"; mirrors each schema to "<folder>/<Type>.md"; empty disables
+  includeGlobs: string[];               // only these paths are synced; empty means the whole vault
+  excludeGlobs: string[];               // never synced, even when included
+  templateFolder: string;               // notes here follow schema updates but never change a schema
+  warnOnInvalidSave: boolean;           // show a notice when a saved note breaks its schema's rules
 }
 
 const DEFAULT_SETTINGS: TypeSyncSettings = {
   mySetting: "default",
   syncOrder: true,
   syncPropertyRemovals: false,
+  typeKeys: ["Type"],
+  typeTagPrefix: "",
+  typeFolders: {},
+  multiTypePrecedence: "first",
+  schemaNotesFolder: "",
+  includeGlobs: [],
+  excludeGlobs: [],
+  templateFolder: "",
+  warnOnInvalidSave: false,
 };
 
 const DEBOUNCE_MS = 350;
-const TYPE_KEY = "Type";
+const TYPE_KEY = "Type"; // schema placeholder for whichever key, tag or folder carries the type
 const REV_AT_KEY = "_typesync_rev_at";
 const REV_ID_KEY = "_typesync_rev_id";
-const INTERNAL_KEYS = new Set([REV_AT_KEY, REV_ID_KEY]);
+// a note's own "Type" property while another key carries the type; written back as "Type"
+const SHADOWED_TYPE_KEY = "_typesync_type_property";
+const INTERNAL_KEYS = new Set([REV_AT_KEY, REV_ID_KEY, SHADOWED_TYPE_KEY]);
 const LOCAL_SCHEMA_STORAGE_KEY = "typesync_last_seen_schemas";
+const MAX_JOURNAL_OPERATIONS = 20;
+const MAX_JOURNAL_OPERATION_CHARS = 20000000; // pre-write content kept for one operation
+const MAX_JOURNAL_TOTAL_BYTES = 50000000;     // all stored operations together
+const SCHEMA_PACK_VERSION = 1;
+const MAX_SCHEMA_HISTORY = 30;
+const DEFAULT_NEW_NOTE_NAME = "Untitled {{type}}";
+
+// Fast non-cryptographic hash (cyrb53); the journal only needs it to notice later edits.
+function hashContent(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// "*" and "?" stay within one path segment, "**" spans folders; a pattern also matches
+// everything below it, so "Templates" covers "Templates/Book.md".
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.trim().replace(/^\/+|\/+$/g, "");
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]!;
+    if (c === "*" && pattern[i + 1] === "*") {
+      re += ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}(/.*)?$`);
+}
+
+// compiled once per glob; the set of globs in use is small and only grows with edits
+const globCache = new Map<string, RegExp>();
+
+function matchesAnyGlob(path: string, globs: string[]): boolean {
+  return globs.some((g) => {
+    if (g.trim().length === 0) return false;
+    let re = globCache.get(g);
+    if (!re) {
+      re = globToRegExp(g);
+      globCache.set(g, re);
+    }
+    return re.test(path);
+  });
+}
+
+function parseGlobList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((g) => g.trim())
+    .filter((g) => g.length > 0);
+}
 
 interface SchemaRevision {
   updatedAt: number;
@@ -51,8 +199,31 @@ interface SchemaChangeSummary {
   revisionId: string;
 }
 
+// Scope and new-note options, kept apart from the keys so merges can compare them.
+type SchemaOptionField = "include" | "exclude" | "newNoteFolder" | "newNoteName";
+const SCHEMA_OPTION_FIELDS: SchemaOptionField[] = ["include", "exclude", "newNoteFolder", "newNoteName"];
+
+// The full schema as it was at one revision, for browsing, diffing and restoring.
+interface SchemaHistoryEntry extends SchemaChangeSummary {
+  keysOrdered: string[];
+  properties?: Record<string, PropertyDefinition>;
+  extends?: TypeName;
+  options?: Pick<TypeSchema, SchemaOptionField>; // missing in entries written before options were recorded
+}
+
+type TypeSource = "key" | "tag" | "folder";
+
+interface TypeLocation {
+  typeValue: TypeName | null;  // first listed Type
+  typeValues: TypeName[];      // all Types, for list-valued notes
+  source: TypeSource | null;
+  key: string | null; // frontmatter key holding the type when source is "key"
+}
+
 interface Snapshot {
-  typeValue: TypeName | null;
+  typeValue: TypeName | null;    // primary (first listed) Type
+  typeValues: TypeName[];
+  typeSource: TypeSource | null;
   keysSet: Set<string>;          // from parsed object keys
   keysOrdered: string[];         // from frontmatter text order (fallback to keysSet if no FM)
   frontmatterObj: Record<string, any>;
@@ -61,6 +232,70 @@ interface Snapshot {
   noteRev: SchemaRevision | null;
 }
 
+type PropertyIssue = {
+  key: string;
+  message: string;
+};
+
+type CoerceResult =
+  | { ok: true; value: any }
+  | { ok: false; message: string };
+
+// what a rename does when the note already has a value under the new key
+type RenameConflict = "from" | "to" | "merge";
+
+type KeyRename = {
+  from: string;
+  to: string;
+  onConflict?: RenameConflict; // defaults to "from"
+  guessed?: boolean; // inferred from one removed plus one added key; the old key is only dropped by removal sync
+};
+
+type RewriteOptions = {
+  preserveOverlapValues: boolean;
+  renames?: KeyRename[];
+  migration?: ValueTransform[]; // transforms being recorded now, for notes without revision markers
+};
+
+type RewritePlan = {
+  current: Snapshot;
+  outObj: Record<string, any>;
+  finalOrder: string[];
+  issues: PropertyIssue[];
+  renames: KeyRename[];
+  typeOut: string | string[];
+};
+
+// Plans kept from a preview so accepting it writes what was shown.
+type PreviewSet = {
+  previews: FilePreview[];
+  plans: Map<string, RewritePlan>;
+  unchanged: number;
+  errors: number;
+};
+
+type FilePreview = {
+  file: TFile;
+  typeValue: string;
+  added: string[];
+  dropped: string[];
+  reordered: boolean;
+  renamed: KeyRename[];
+  changedValues: { key: string; before: any; after: any }[];
+};
+
+type FrontmatterBlock = {
+  keyText: string;  // key as written, including quotes
+  leading: string[]; // comments/blank lines directly above the key
+  lines: string[];   // key line plus its continuation lines
+};
+
+type FrontmatterLayout = {
+  header: string[];
+  blocks: Map<string, FrontmatterBlock>;
+  trailer: string[];
+};
+
 type Diff = {
   added: string[];
   removed: string[];
@@ -72,8 +307,28 @@ type BulkRunOptions = {
   files: TFile[];
   perFile: (file: TFile, index: number, total: number) => Promise<void>;
   onDone?: (completed: number, total: number, canceled: boolean, failures: number) => void;
+  schemasBefore?: Record<TypeName, TypeSchema>; // schema state to restore on undo
+  journal?: boolean;                            // default true
 };
 
+interface JournalFileEntry {
+  path: string;
+  before: string;
+  afterHash?: string; // hash of what the operation wrote, to spot later edits
+  after?: string;     // full text, in journals written before hashes were used
+}
+
+interface JournalOperation {
+  id: string;
+  title: string;
+  startedAt: number;
+  files: JournalFileEntry[];
+  incomplete?: boolean; // stopped recording after MAX_JOURNAL_OPERATION_CHARS
+  size?: number;        // characters of pre-write content recorded so far
+  schemasBefore?: Record<TypeName, TypeSchema>;
+  schemasAfter?: Record<TypeName, TypeSchema>;
+}
+
 class BulkProgressModal extends Modal {
   private canceled = false;
   private total = 0;
@@ -366,8 +621,34 @@ type SchemaChangeNotice = {
   added: string[];
   removed: string[];
   orderChanged: boolean;
+  inherited?: { parent: TypeName; keys: string[] }[];
 };
 
+function renderSchemaChangeNotice(section: HTMLElement, change: SchemaChangeNotice): void {
+  section.createEl("strong", { text: `Type "${change.typeValue}"` });
+
+  if (change.added.length > 0) {
+    section.createEl("div", { text: "Added properties:" });
+    const ul = section.createEl("ul", { cls: "typesync-list" });
+    change.added.forEach((k) => ul.createEl("li", { text: k }));
+  }
+
+  if (change.removed.length > 0) {
+    section.createEl("div", { text: "Removed properties:" });
+    const ul = section.createEl("ul", { cls: "typesync-list" });
+    change.removed.forEach((k) => ul.createEl("li", { text: k }));
+  }
+
+  if (change.orderChanged) {
+    section.createEl("div", { text: "Order updated." });
+  }
+
+  (change.inherited ?? []).forEach((group) => {
+    if (group.keys.length === 0) return;
+    section.createEl("div", { text: `Inherited from "${group.parent}": ${group.keys.join(", ")}` });
+  });
+}
+
 class SchemaUpdateInfoModal extends Modal {
   constructor(app: App, private changes: SchemaChangeNotice[]) {
     super(app);
@@ -381,24 +662,7 @@ class SchemaUpdateInfoModal extends Modal {
     contentEl.createEl("p", { text: "Schema updates detected:" });
 
     this.changes.forEach((change) => {
-      const section = contentEl.createDiv({ cls: "typesync-schema-summary" });
-      section.createEl("strong", { text: `Type "${change.typeValue}"` });
-
-      if (change.added.length > 0) {
-        section.createEl("div", { text: "Added properties:" });
-        const ul = section.createEl("ul", { cls: "typesync-list" });
-        change.added.forEach((k) => ul.createEl("li", { text: k }));
-      }
-
-      if (change.removed.length > 0) {
-        section.createEl("div", { text: "Removed properties:" });
-        const ul = section.createEl("ul", { cls: "typesync-list" });
-        change.removed.forEach((k) => ul.createEl("li", { text: k }));
-      }
-
-      if (change.orderChanged) {
-        section.createEl("div", { text: "Order updated." });
-      }
+      renderSchemaChangeNotice(contentEl.createDiv({ cls: "typesync-schema-summary" }), change);
     });
 
     const row = contentEl.createDiv({ cls: "typesync-progress-row" });
@@ -408,202 +672,3096 @@ class SchemaUpdateInfoModal extends Modal {
   }
 }
 
-class TypeSyncSettingTab extends PluginSettingTab {
-  constructor(app: App, private plugin: TypeSyncPlugin) {
-    super(app, plugin);
+// Default values are entered as YAML ("[book]" is a list), except template tokens
+// like "{{date}}", which YAML would otherwise read as a nested mapping.
+function parseDefaultInput(text: string): any {
+  const t = text.trim();
+  if (t.length === 0) return undefined;
+  if (t.startsWith("{{")) return t;
+  try {
+    const parsed = parseYaml(t);
+    return parsed === null || parsed === undefined ? undefined : parsed;
+  } catch {
+    return t;
   }
+}
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
-
-    containerEl.createEl("h2", { text: "TypeSync" });
+// Allowed values are entered comma-separated; each is read as YAML so "3" becomes a number.
+function parseAllowedValuesInput(text: string): any[] {
+  return text
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0)
+    .map((v) => {
+      const parsed = parseDefaultInput(v);
+      return parsed === undefined ? v : parsed;
+    });
+}
 
-    new Setting(containerEl)
-      .setName("Sync property order")
-      .setDesc("If enabled, reordering properties in one note will silently propagate to the schema and all notes of that Type.")
-      .addToggle((toggle) =>
-        toggle
-          .setValue(this.plugin.settings.syncOrder)
-          .onChange(async (v) => {
-            this.plugin.settings.syncOrder = v;
-            await this.plugin.savePluginData();
-          })
-      );
+function formatAllowedValues(values: any[] | undefined): string {
+  return (values ?? []).map((v) => formatDefaultValue(v)).join(", ");
+}
 
-    new Setting(containerEl)
-      .setName("Sync property removals")
-      .setDesc("If enabled, properties removed from the schema are removed from notes when applying the schema.")
-      .addToggle((toggle) =>
-        toggle
-          .setValue(this.plugin.settings.syncPropertyRemovals)
-          .onChange(async (v) => {
-            this.plugin.settings.syncPropertyRemovals = v;
-            await this.plugin.savePluginData();
-          })
-      );
-  }
+function formatDefaultValue(value: any): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
 }
 
-export default class TypeSyncPlugin extends Plugin {
-  settings: TypeSyncSettings;
+class PropertyDefinitionsModal extends Modal {
+  private draft: Record<string, PropertyDefinition> = {};
 
-  private schemas: Record<TypeName, TypeSchema> = {};
-  private snapshots: Map<string, Snapshot> = new Map();
-  private pendingTypes: Set<string> = new Set();
-  private ignoreNextSchemaReload = false;
-  private schemaDataPath = "";
+  constructor(
+    app: App,
+    private typeValue: string,
+    private keys: string[],
+    properties: Record<string, PropertyDefinition>,
+    private onSave: (properties: Record<string, PropertyDefinition>) => void
+  ) {
+    super(app);
+    for (const [k, def] of Object.entries(properties)) this.draft[k] = { ...def };
+  }
 
-  // suppression so TypeSync edits never cause prompts
-  private suppressedPaths: Map<string, number> = new Map();
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
 
-  // debounce modify events per file
-  private debounceTimers: Map<string, number> = new Map();
+    contentEl.createEl("p", { text: `Property definitions for Type "${this.typeValue}":` });
+    contentEl.createEl("div", {
+      text: "Defaults accept YAML and the tokens {{date}}, {{date:FORMAT}}, {{time}}, {{title}}, {{folder}}, {{created}}.",
+    });
 
-  // lock schema while modal or bulk op
-  private schemaLocked = false;
+    for (const key of this.keys) {
+      new Setting(contentEl)
+        .setName(key)
+        .addText((text) => {
+          text.setPlaceholder("Default");
+          text.setValue(formatDefaultValue(this.draft[key]?.default));
+          text.onChange((v) => {
+            const def = { ...(this.draft[key] ?? {}) };
+            const parsed = parseDefaultInput(v);
+            if (parsed === undefined) delete def.default;
+            else def.default = parsed;
+            this.draft[key] = def;
+          });
+        })
+        .addDropdown((dd) => {
+          dd.addOption("", "Any");
+          PROPERTY_TYPES.forEach((t) => dd.addOption(t, t));
+          dd.setValue(this.draft[key]?.type ?? "");
+          dd.onChange((v) => {
+            const def = { ...(this.draft[key] ?? {}) };
+            if (v) def.type = v as PropertyType;
+            else delete def.type;
+            this.draft[key] = def;
+          });
+        });
 
-  async onload(): Promise<void> {
-    const loaded = await this.loadData();
-    const loadedSettings = (loaded?.settings ?? loaded ?? {}) as Record<string, unknown>;
-    if ("debounceMs" in loadedSettings) {
-      delete loadedSettings.debounceMs;
+      renderPropertyRules(
+        new Setting(contentEl).setDesc("Required, pattern, allowed values"),
+        () => this.draft[key] ?? {},
+        (def) => {
+          this.draft[key] = def;
+        }
+      );
+      renderComputedControl(
+        new Setting(contentEl).setDesc("Computed value"),
+        () => this.draft[key] ?? {},
+        (def) => {
+          this.draft[key] = def;
+        }
+      );
     }
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedSettings);
-    this.schemas = loaded?.schemas ?? loaded?.schemasByType ?? loaded?.schemas ?? {};
-    this.schemaDataPath = normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}/data.json`);
 
-    // normalize schemas
-    this.normalizeSchemas(this.schemas);
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    const saveBtn = row.createEl("button", { text: "Save and apply to all files of this Type" });
+    saveBtn.classList.add("mod-cta");
+    saveBtn.addEventListener("click", () => {
+      this.onSave(this.draft);
+      this.close();
+    });
 
-    this.addSettingTab(new TypeSyncSettingTab(this.app, this));
+    const cancelBtn = row.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
 
-    this.addCommand({
-      id: "typesync-sync-type-to-this-file",
-      name: "TypeSync: Sync Type to This File (schema only)",
-      callback: async () => {
-        const file = this.app.workspace.getActiveFile();
-        if (!file) { new Notice("No active file."); return; }
-        if (file.extension !== "md") { new Notice("TypeSync only works on markdown files."); return; }
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
 
-        const snap = await this.buildSnapshot(file);
-        if (!snap.typeValue) { new Notice(`No "${TYPE_KEY}" set on this note.`); return; }
-        const typeValue = snap.typeValue;
+// Shared controls for a property's validation rules; update receives a fresh definition each time.
+function renderPropertyRules(
+  setting: Setting,
+  current: () => PropertyDefinition,
+  update: (def: PropertyDefinition) => void
+): void {
+  setting
+    .addToggle((toggle) =>
+      toggle
+        .setTooltip("Required")
+        .setValue(!!current().required)
+        .onChange((v) => {
+          const def = { ...current() };
+          if (v) def.required = true;
+          else delete def.required;
+          update(def);
+        })
+    )
+    .addText((text) =>
+      text
+        .setPlaceholder("Pattern (regex)")
+        .setValue(current().pattern ?? "")
+        .onChange((v) => {
+          const def = { ...current() };
+          if (v.trim()) def.pattern = v.trim();
+          else delete def.pattern;
+          update(def);
+        })
+    )
+    .addText((text) =>
+      text
+        .setPlaceholder("Allowed values, comma-separated")
+        .setValue(formatAllowedValues(current().allowedValues))
+        .onChange((v) => {
+          const def = { ...current() };
+          const values = parseAllowedValuesInput(v);
+          if (values.length > 0) def.allowedValues = values;
+          else delete def.allowedValues;
+          update(def);
+        })
+    );
+}
 
-        const rev = this.createSchemaRevision();
-        this.schemas[typeValue] = {
-          keysOrdered: [...snap.keysOrdered],
-          rev,
-          lastChangeSummary: this.buildChangeSummary([], [], false, rev),
-        };
-        await this.savePluginData();
-        await this.updateLocalSchemaCache();
-        new Notice(`TypeSync: schema for "${typeValue}" set to match this file (no edits made).`);
-      },
-    });
+function renderComputedControl(
+  setting: Setting,
+  current: () => PropertyDefinition,
+  update: (def: PropertyDefinition) => void
+): void {
+  setting
+    .addDropdown((dd) => {
+      dd.addOption("", "Not computed");
+      COMPUTED_KINDS.forEach((k) => dd.addOption(k, `Computed: ${k}`));
+      dd.setValue(current().computed ?? "");
+      dd.onChange((v) => {
+        const def = { ...current() };
+        if (v) def.computed = v as ComputedKind;
+        else delete def.computed;
+        if (def.computed !== "age") delete def.computedFrom;
+        update(def);
+      });
+    })
+    .addText((text) =>
+      text
+        .setPlaceholder(`Age from (${DEFAULT_AGE_SOURCE})`)
+        .setValue(current().computedFrom ?? "")
+        .onChange((v) => {
+          const def = { ...current() };
+          if (v.trim()) def.computedFrom = v.trim();
+          else delete def.computedFrom;
+          update(def);
+        })
+    );
+}
 
-    this.addCommand({
-      id: "typesync-reconcile-current-type",
-      name: "TypeSync: Reconcile Current Type",
-      callback: async () => {
-        const file = this.app.workspace.getActiveFile();
-        if (!file) { new Notice("No active file."); return; }
-        if (file.extension !== "md") { new Notice("TypeSync only works on markdown files."); return; }
+type PreviewDecision =
+  | { kind: "apply"; files: TFile[] }
+  | { kind: "abort" };
 
-        const snap = await this.buildSnapshot(file);
-        if (!snap.typeValue) { new Notice(`No "${TYPE_KEY}" set on this note.`); return; }
-        const typeValue = snap.typeValue;
-        const schema = this.schemas[typeValue];
-        if (!schema) { new Notice(`No schema exists for Type "${typeValue}".`); return; }
+function describeValue(value: any): string {
+  if (value === null || value === undefined || value === "") return "(blank)";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
 
-        await this.runBulk({
-          title: `Reconciling Type "${typeValue}"`,
-          files: this.getFilesByType(typeValue),
-          perFile: async (f) => {
-            await this.rewriteToSchema(f, typeValue, { preserveOverlapValues: true });
-          },
-          onDone: (done, total, canceled, failures) => {
-            new Notice(`TypeSync: Reconciled ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
-          },
-        });
-      },
-    });
+class ReconcilePreviewModal extends Modal {
+  private resolved = false;
+  private selected: Set<string>;
 
-    this.addCommand({
-      id: "typesync-reconcile-all-types",
-      name: "TypeSync: Reconcile All Types",
-      callback: async () => {
-        const allTypes = Object.keys(this.schemas);
-        if (allTypes.length === 0) { new Notice("TypeSync: no schemas found."); return; }
+  constructor(
+    app: App,
+    private heading: string,
+    private previews: FilePreview[],
+    private unchangedCount: number,
+    private errorCount: number,
+    private onResolve: (d: PreviewDecision) => void,
+    private selectable = true // false when skipped notes would get the change later anyway
+  ) {
+    super(app);
+    this.selected = new Set(previews.map((p) => p.file.path));
+  }
 
-        const files = this.app.vault.getMarkdownFiles().filter((f) => f.extension === "md");
-        // We'll reconcile by scanning each file's Type and applying its schema
-        await this.runBulk({
-          title: "Reconciling all Types",
-          files,
-          perFile: async (f) => {
-            const snap = await this.buildSnapshot(f);
-            if (!snap.typeValue) return;
-            if (!this.schemas[snap.typeValue]) return;
-            await this.rewriteToSchema(f, snap.typeValue, { preserveOverlapValues: true });
-          },
-          onDone: (done, total, canceled, failures) => {
-            new Notice(`TypeSync: Reconcile complete ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
-          },
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    const counts = [`${this.heading} (preview): ${this.previews.length} file(s) would change`];
+    if (this.unchangedCount) counts.push(`${this.unchangedCount} already match`);
+    if (this.errorCount) counts.push(`${this.errorCount} could not be previewed (see console)`);
+    contentEl.createEl("p", { text: `${counts.join(", ")}.` });
+    if (!this.selectable && this.previews.length > 0) {
+      contentEl.createEl("p", {
+        text: "This change is recorded for the whole Type: notes left out now would get it at their next update, so it applies to all of them or none.",
+      });
+    }
+
+    this.previews.forEach((preview) => {
+      const section = contentEl.createDiv({ cls: "typesync-schema-summary" });
+      const label = section.createEl("label");
+      if (this.selectable) {
+        const checkbox = label.createEl("input", { type: "checkbox" });
+        checkbox.checked = true;
+        checkbox.addEventListener("change", () => {
+          if (checkbox.checked) this.selected.add(preview.file.path);
+          else this.selected.delete(preview.file.path);
         });
-      },
+      }
+      label.createEl("strong", { text: ` ${preview.file.path}` });
+
+      const ul = section.createEl("ul", { cls: "typesync-list" });
+      if (preview.added.length > 0) ul.createEl("li", { text: `Added: ${preview.added.join(", ")}` });
+      if (preview.dropped.length > 0) ul.createEl("li", { text: `Dropped: ${preview.dropped.join(", ")}` });
+      preview.renamed.forEach((r) => ul.createEl("li", { text: `Renamed: ${r.from} → ${r.to}` }));
+      if (preview.reordered) ul.createEl("li", { text: "Reordered" });
+      preview.changedValues.forEach((c) =>
+        ul.createEl("li", { text: `Changed ${c.key}: ${describeValue(c.before)} → ${describeValue(c.after)}` })
+      );
     });
 
-    this.registerEvent(
-      this.app.vault.on("modify", (file) => {
-        if (!(file instanceof TFile)) return;
-        if (file.path === this.schemaDataPath) {
-          this.handleSchemaFileModify(file).catch((e) => console.error("TypeSync schema reload error", e));
-          return;
-        }
-        if (file.extension !== "md") return;
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
 
-        const path = file.path;
-        if (this.isSuppressed(path)) return;
+    if (this.previews.length > 0) {
+      const allBtn = row.createEl("button", { text: "Apply all" });
+      allBtn.classList.add("mod-cta");
+      allBtn.addEventListener("click", () => {
+        this.resolve({ kind: "apply", files: this.previews.map((p) => p.file) });
+      });
 
-        // debounce
-        const existing = this.debounceTimers.get(path);
-        if (existing) window.clearTimeout(existing);
+      if (this.selectable) {
+        const selectedBtn = row.createEl("button", { text: "Apply selected" });
+        selectedBtn.addEventListener("click", () => {
+          this.resolve({ kind: "apply", files: this.previews.filter((p) => this.selected.has(p.file.path)).map((p) => p.file) });
+        });
+      }
+    }
+
+    const abortBtn = row.createEl("button", { text: this.previews.length > 0 ? "Abort" : "Dismiss" });
+    abortBtn.addEventListener("click", () => this.resolve({ kind: "abort" }));
+  }
+
+  private resolve(d: PreviewDecision): void {
+    this.resolved = true;
+    this.onResolve(d);
+    this.close();
+  }
+
+  onClose(): void {
+    if (!this.resolved) this.onResolve({ kind: "abort" });
+    this.contentEl.empty();
+  }
+}
+
+// A note whose revision markers are newer than its schema, or whose Type has no schema here.
+type PendingNote = {
+  file: TFile;
+  typeValues: TypeName[];
+  noteRev: SchemaRevision;
+  schemaRev: SchemaRevision | null; // null when a Type has no schema
+};
+
+class PendingNotesModal extends Modal {
+  constructor(
+    app: App,
+    private notes: PendingNote[],
+    private onAdopt: (note: PendingNote) => void,
+    private onPullBack: (notes: PendingNote[]) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    if (this.notes.length === 0) {
+      contentEl.createEl("p", { text: "No notes are ahead of the local schemas." });
+      return;
+    }
+
+    contentEl.createEl("p", {
+      text:
+        "These notes were written against a newer schema than this device has. Wait for the schema to sync, " +
+        "adopt a note's properties as its Type's schema, or pull the notes back to the current schema.",
+    });
+
+    const groups = new Map<string, PendingNote[]>();
+    for (const note of this.notes) {
+      const label = note.typeValues.join(" + ");
+      groups.set(label, [...(groups.get(label) ?? []), note]);
+    }
+
+    for (const [label, notes] of groups) {
+      const section = contentEl.createDiv({ cls: "typesync-schema-summary" });
+      const heading = new Setting(section).setName(`Type "${label}"`).setHeading();
+      const pullable = notes.filter((n) => n.schemaRev !== null);
+      if (pullable.length > 0) {
+        heading.addButton((btn) =>
+          btn.setButtonText(`Pull back ${pullable.length}`).onClick(() => {
+            this.close();
+            this.onPullBack(pullable);
+          })
+        );
+      }
+
+      notes.forEach((note) => {
+        const setting = new Setting(section)
+          .setName(note.file.path)
+          .setDesc(
+            note.schemaRev
+              ? `Note: ${new Date(note.noteRev.updatedAt).toLocaleString()} • schema: ${new Date(note.schemaRev.updatedAt).toLocaleString()}`
+              : `Note: ${new Date(note.noteRev.updatedAt).toLocaleString()} • no schema on this device`
+          )
+          .addButton((btn) =>
+            btn.setButtonText("Open").onClick(() => {
+              this.close();
+              this.app.workspace.getLeaf(false).openFile(note.file).catch((e) => console.error("TypeSync open error", e));
+            })
+          )
+          .addButton((btn) =>
+            btn.setButtonText("Adopt as schema").onClick(() => {
+              this.close();
+              this.onAdopt(note);
+            })
+          );
+        if (note.schemaRev) {
+          setting.addButton((btn) =>
+            btn.setButtonText("Pull back").onClick(() => {
+              this.close();
+              this.onPullBack([note]);
+            })
+          );
+        }
+      });
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+class JournalHistoryModal extends Modal {
+  constructor(
+    app: App,
+    private operations: JournalOperation[],
+    private onRestore: (op: JournalOperation) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    if (this.operations.length === 0) {
+      contentEl.createEl("p", { text: "No recorded operations." });
+      return;
+    }
+
+    contentEl.createEl("p", { text: "Recent operations (newest first):" });
+
+    this.operations.forEach((op) => {
+      new Setting(contentEl)
+        .setName(op.title)
+        .setDesc(`${new Date(op.startedAt).toLocaleString()} • ${op.files.length} file(s)`)
+        .addButton((btn) =>
+          btn.setButtonText("Restore").onClick(() => {
+            this.close();
+            this.onRestore(op);
+          })
+        );
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+class TextInputModal extends Modal {
+  private value: string;
+
+  constructor(
+    app: App,
+    private prompt: string,
+    initial: string,
+    private submitText: string,
+    private onSubmit: (value: string) => void
+  ) {
+    super(app);
+    this.value = initial;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    contentEl.createEl("p", { text: this.prompt });
+    const input = contentEl.createEl("input", { type: "text" });
+    input.value = this.value;
+    input.addEventListener("input", () => {
+      this.value = input.value;
+    });
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") {
+        e.preventDefault();
+        this.submit();
+      }
+    });
+
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    const okBtn = row.createEl("button", { text: this.submitText });
+    okBtn.classList.add("mod-cta");
+    okBtn.addEventListener("click", () => this.submit());
+
+    const cancelBtn = row.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.close());
+
+    input.focus();
+    input.select();
+  }
+
+  private submit(): void {
+    const v = this.value.trim();
+    if (!v) return;
+    this.close();
+    this.onSubmit(v);
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+// Type names may contain characters a file name can't (tag-derived "book/sub", "a: b").
+function schemaNoteFileName(typeValue: TypeName): string {
+  return typeValue.replace(/[\\/:*?"<>|#^[\]]/g, "-").replace(/^\.+/, "-").trim() || "-";
+}
+
+// A schema pack is the portable file written by "Export Schemas" and read by "Import Schemas".
+interface SchemaPack {
+  typesync: number;
+  exportedAt: string;
+  schemas: Record<TypeName, TypeSchema>;
+}
+
+class SchemaExportModal extends Modal {
+  private selected: Set<string>;
+  private path: string;
+
+  constructor(
+    app: App,
+    private types: string[],
+    initialPath: string,
+    private onSubmit: (types: string[], path: string) => void
+  ) {
+    super(app);
+    this.selected = new Set(types);
+    this.path = initialPath;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    contentEl.createEl("p", { text: "Export these Types (parents of selected Types are included):" });
+
+    this.types.forEach((t) => {
+      const label = contentEl.createEl("label", { cls: "typesync-schema-summary" });
+      const checkbox = label.createEl("input", { type: "checkbox" });
+      checkbox.checked = true;
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) this.selected.add(t);
+        else this.selected.delete(t);
+      });
+      label.appendText(` ${t}`);
+      label.createEl("br");
+    });
+
+    new Setting(contentEl)
+      .setName("File")
+      .setDesc("Vault path ending in .json, .yaml or .yml.")
+      .addText((text) =>
+        text.setValue(this.path).onChange((v) => {
+          this.path = v.trim();
+        })
+      );
+
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    const okBtn = row.createEl("button", { text: "Export" });
+    okBtn.classList.add("mod-cta");
+    okBtn.addEventListener("click", () => {
+      const types = this.types.filter((t) => this.selected.has(t));
+      if (types.length === 0 || !this.path) return;
+      this.close();
+      this.onSubmit(types, this.path);
+    });
+
+    const cancelBtn = row.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+class TypeSuggestModal extends FuzzySuggestModal<string> {
+  constructor(app: App, private types: string[], placeholder: string, private onChoose: (typeValue: string) => void) {
+    super(app);
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): string[] {
+    return this.types;
+  }
+
+  getItemText(typeValue: string): string {
+    return typeValue;
+  }
+
+  onChooseItem(typeValue: string): void {
+    this.onChoose(typeValue);
+  }
+}
+
+class SchemaPackFileModal extends FuzzySuggestModal<TFile> {
+  constructor(app: App, private onChoose: (file: TFile) => void) {
+    super(app);
+    this.setPlaceholder("Choose a schema file to import…");
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter((f) => ["json", "yaml", "yml"].includes(f.extension));
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
+
+class SchemaImportModal extends Modal {
+  private resolved = false;
+  private selected: Set<string>;
+
+  constructor(
+    app: App,
+    private source: string,
+    private changes: SchemaChangeNotice[],
+    private onResolve: (types: string[]) => void
+  ) {
+    super(app);
+    this.selected = new Set(changes.map((c) => c.typeValue));
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    if (this.changes.length === 0) {
+      contentEl.createEl("p", { text: `${this.source} matches the current schemas.` });
+    } else {
+      contentEl.createEl("p", { text: `Importing ${this.source} would change:` });
+    }
+
+    this.changes.forEach((change) => {
+      const section = contentEl.createDiv({ cls: "typesync-schema-summary" });
+      const checkbox = section.createEl("input", { type: "checkbox" });
+      checkbox.checked = true;
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) this.selected.add(change.typeValue);
+        else this.selected.delete(change.typeValue);
+      });
+      renderSchemaChangeNotice(section, change);
+    });
+
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    if (this.changes.length > 0) {
+      const okBtn = row.createEl("button", { text: "Import selected" });
+      okBtn.classList.add("mod-cta");
+      okBtn.addEventListener("click", () => {
+        this.resolve(this.changes.map((c) => c.typeValue).filter((t) => this.selected.has(t)));
+      });
+    }
+
+    const cancelBtn = row.createEl("button", { text: this.changes.length > 0 ? "Cancel" : "Dismiss" });
+    cancelBtn.addEventListener("click", () => this.resolve([]));
+  }
+
+  private resolve(types: string[]): void {
+    this.resolved = true;
+    this.onResolve(types);
+    this.close();
+  }
+
+  onClose(): void {
+    if (!this.resolved) this.onResolve([]);
+    this.contentEl.empty();
+  }
+}
+
+type MergeSide = "local" | "remote";
+
+// A disagreement the three-way merge of keysOrdered can't settle on its own.
+type MergeConflict =
+  | { kind: "presence"; typeValue: TypeName; key: string; localHas: boolean }
+  | { kind: "order"; typeValue: TypeName; local: string[]; remote: string[] };
+
+class SchemaMergeConflictModal extends Modal {
+  private resolved = false;
+  private choices: MergeSide[];
+
+  constructor(app: App, private conflicts: MergeConflict[], private onResolve: (choices: MergeSide[] | null) => void) {
+    super(app);
+    this.choices = conflicts.map(() => "remote");
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    contentEl.createEl("p", {
+      text: "Schemas were changed on this device and on another one. Choose which side wins where the changes collide:",
+    });
+
+    this.conflicts.forEach((conflict, i) => {
+      const setting = new Setting(contentEl);
+      let localLabel: string;
+      let remoteLabel: string;
+      if (conflict.kind === "presence") {
+        setting.setName(`Type "${conflict.typeValue}": "${conflict.key}"`);
+        setting.setDesc("Added on one device and removed on the other.");
+        localLabel = conflict.localHas ? "Keep (this device)" : "Remove (this device)";
+        remoteLabel = conflict.localHas ? "Remove (synced)" : "Keep (synced)";
+      } else {
+        setting.setName(`Type "${conflict.typeValue}": property order`);
+        setting.setDesc(
+          `This device: ${conflict.local.filter((k) => k !== TYPE_KEY).join(", ")} • ` +
+            `Synced: ${conflict.remote.filter((k) => k !== TYPE_KEY).join(", ")}`
+        );
+        localLabel = "This device's order";
+        remoteLabel = "Synced order";
+      }
+      setting.addDropdown((dd) =>
+        dd
+          .addOption("remote", remoteLabel)
+          .addOption("local", localLabel)
+          .setValue(this.choices[i]!)
+          .onChange((v) => {
+            this.choices[i] = v === "local" ? "local" : "remote";
+          })
+      );
+    });
+
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    const okBtn = row.createEl("button", { text: "Merge" });
+    okBtn.classList.add("mod-cta");
+    okBtn.addEventListener("click", () => this.resolve(this.choices));
+
+    const remoteBtn = row.createEl("button", { text: "Take synced schemas" });
+    remoteBtn.addEventListener("click", () => this.resolve(null));
+  }
+
+  private resolve(choices: MergeSide[] | null): void {
+    this.resolved = true;
+    this.onResolve(choices);
+    this.close();
+  }
+
+  onClose(): void {
+    if (!this.resolved) this.onResolve(null);
+    this.contentEl.empty();
+  }
+}
+
+function describeHistoryEntry(entry: SchemaHistoryEntry): string {
+  const parts: string[] = [];
+  if (entry.added.length > 0) parts.push(`added ${entry.added.join(", ")}`);
+  if (entry.removed.length > 0) parts.push(`removed ${entry.removed.join(", ")}`);
+  if (entry.orderChanged) parts.push("order updated");
+  return parts.length > 0 ? parts.join(" • ") : "no key changes";
+}
+
+function historyEntryLabel(entry: SchemaHistoryEntry): string {
+  return `${new Date(entry.updatedAt).toLocaleString()} (${entry.revisionId.slice(0, 6)})`;
+}
+
+class SchemaHistoryModal extends Modal {
+  private fromId: string | null = null;
+  private toId: string | null = null;
+
+  constructor(app: App, private plugin: TypeSyncPlugin, private typeValue: string) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    new Setting(contentEl).setName("Type").addDropdown((dd) => {
+      this.plugin.getTypeNames().forEach((t) => dd.addOption(t, t));
+      dd.setValue(this.typeValue);
+      dd.onChange((v) => {
+        this.typeValue = v;
+        this.fromId = null;
+        this.toId = null;
+        this.render();
+      });
+    });
+
+    const history = [...(this.plugin.getSchemaCopy(this.typeValue)?.history ?? [])].reverse();
+    if (history.length === 0) {
+      contentEl.createEl("p", { text: "No revisions recorded for this Type yet." });
+      return;
+    }
+
+    // compare the previous revision with the newest one unless the user picks others
+    const toId = this.toId ?? history[0]!.revisionId;
+    const fromId = this.fromId ?? (history[1] ?? history[0]!).revisionId;
+
+    new Setting(contentEl)
+      .setName("Compare")
+      .addDropdown((dd) => {
+        history.forEach((e) => dd.addOption(e.revisionId, historyEntryLabel(e)));
+        dd.setValue(fromId);
+        dd.onChange((v) => {
+          this.fromId = v;
+          this.render();
+        });
+      })
+      .addDropdown((dd) => {
+        history.forEach((e) => dd.addOption(e.revisionId, historyEntryLabel(e)));
+        dd.setValue(toId);
+        dd.onChange((v) => {
+          this.toId = v;
+          this.render();
+        });
+      });
+
+    const from = history.find((e) => e.revisionId === fromId);
+    const to = history.find((e) => e.revisionId === toId);
+    if (from && to) this.renderDiff(contentEl.createDiv({ cls: "typesync-schema-summary" }), from, to);
+
+    contentEl.createEl("p", { text: "Revisions (newest first):" });
+    history.forEach((entry, i) => {
+      new Setting(contentEl)
+        .setName(historyEntryLabel(entry))
+        .setDesc(`${describeHistoryEntry(entry)} • ${entry.keysOrdered.filter((k) => k !== TYPE_KEY).join(", ") || "no properties"}`)
+        .addButton((btn) =>
+          btn.setButtonText(i === 0 ? "Current" : "Restore").setDisabled(i === 0).onClick(() => {
+            this.close();
+            this.plugin.restoreSchemaRevision(this.typeValue, entry).catch((e) => console.error("TypeSync schema restore error", e));
+          })
+        );
+    });
+  }
+
+  private renderDiff(el: HTMLElement, from: SchemaHistoryEntry, to: SchemaHistoryEntry): void {
+    const added = to.keysOrdered.filter((k) => !from.keysOrdered.includes(k));
+    const removed = from.keysOrdered.filter((k) => !to.keysOrdered.includes(k));
+    const fromCommon = from.keysOrdered.filter((k) => to.keysOrdered.includes(k));
+    const toCommon = to.keysOrdered.filter((k) => from.keysOrdered.includes(k));
+    const reordered = !fromCommon.every((k, i) => toCommon[i] === k);
+    const retyped = [...new Set([...Object.keys(from.properties ?? {}), ...Object.keys(to.properties ?? {})])].filter(
+      (k) => JSON.stringify(from.properties?.[k] ?? {}) !== JSON.stringify(to.properties?.[k] ?? {})
+    );
+
+    const ul = el.createEl("ul", { cls: "typesync-list" });
+    if (added.length > 0) ul.createEl("li", { text: `Added: ${added.join(", ")}` });
+    if (removed.length > 0) ul.createEl("li", { text: `Removed: ${removed.join(", ")}` });
+    if (reordered) ul.createEl("li", { text: `Order: ${toCommon.filter((k) => k !== TYPE_KEY).join(", ")}` });
+    if (retyped.length > 0) ul.createEl("li", { text: `Definitions changed: ${retyped.join(", ")}` });
+    if ((from.extends ?? null) !== (to.extends ?? null)) {
+      ul.createEl("li", { text: `Extends: ${from.extends ?? "none"} → ${to.extends ?? "none"}` });
+    }
+    if (ul.childElementCount === 0) ul.createEl("li", { text: "No differences." });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+const SCHEMA_EDITOR_VIEW_TYPE = "typesync-schema-editor";
+
+type SchemaKeyDraft = {
+  key: string;
+  from: string | null; // key name in the saved schema, null for keys added in the editor
+  def: PropertyDefinition;
+};
+
+class SchemaEditorView extends ItemView {
+  private selectedType: string | null = null;
+  private draftKeys: SchemaKeyDraft[] = [];
+  private draftParent: string | null = null;
+  private dirty = false;
+  private dragIndex: number | null = null;
+
+  constructor(leaf: WorkspaceLeaf, private plugin: TypeSyncPlugin) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return SCHEMA_EDITOR_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "TypeSync schemas";
+  }
+
+  getIcon(): string {
+    return "list-tree";
+  }
+
+  async onOpen(): Promise<void> {
+    this.loadDraft(this.selectedType);
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  // called by the plugin whenever schemas are saved or reloaded; unsaved edits win
+  onSchemasChanged(): void {
+    if (this.dirty && this.selectedType && this.plugin.getTypeNames().includes(this.selectedType)) return;
+    this.loadDraft(this.selectedType);
+    this.render();
+  }
+
+  private loadDraft(typeValue: string | null): void {
+    const types = this.plugin.getTypeNames();
+    const selected = typeValue && types.includes(typeValue) ? typeValue : types[0] ?? null;
+    this.selectedType = selected;
+    const schema = selected ? this.plugin.getSchemaCopy(selected) : null;
+    this.draftKeys = schema
+      ? schema.keysOrdered.map((k) => ({ key: k, from: k, def: { ...(schema.properties?.[k] ?? {}) } }))
+      : [];
+    this.draftParent = schema?.extends ?? null;
+    this.dirty = false;
+  }
+
+  private markDirty(): void {
+    this.dirty = true;
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h4", { text: "TypeSync schemas" });
+
+    const types = this.plugin.getTypeNames();
+
+    new Setting(contentEl)
+      .setName("Type")
+      .addDropdown((dd) => {
+        types.forEach((t) => dd.addOption(t, t));
+        if (this.selectedType) dd.setValue(this.selectedType);
+        dd.onChange((v) => {
+          this.loadDraft(v);
+          this.render();
+        });
+      })
+      .addButton((btn) =>
+        btn.setButtonText("New type").onClick(() => {
+          new TextInputModal(this.app, "Name of the new Type:", "", "Create", (name) => {
+            this.plugin.createType(name).then((ok) => {
+              if (!ok) return;
+              this.loadDraft(name);
+              this.render();
+            }).catch((e) => console.error("TypeSync create type error", e));
+          }).open();
+        })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Rename type").setDisabled(!this.selectedType).onClick(() => {
+          const from = this.selectedType;
+          if (!from) return;
+          new TextInputModal(this.app, `Rename Type "${from}" to:`, from, "Rename", (to) => {
+            this.plugin.renameType(from, to).then(() => {
+              this.loadDraft(this.plugin.getTypeNames().includes(to) ? to : from);
+              this.render();
+            }).catch((e) => console.error("TypeSync rename type error", e));
+          }).open();
+        })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("History").setDisabled(!this.selectedType).onClick(() => {
+          if (this.selectedType) new SchemaHistoryModal(this.app, this.plugin, this.selectedType).open();
+        })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Delete type").setWarning().setDisabled(!this.selectedType).onClick(() => {
+          const typeValue = this.selectedType;
+          if (!typeValue) return;
+          this.plugin.deleteType(typeValue).then(() => {
+            this.loadDraft(null);
+            this.render();
+          }).catch((e) => console.error("TypeSync delete type error", e));
+        })
+      );
+
+    if (!this.selectedType) {
+      contentEl.createEl("p", { text: "No schemas yet. Create a type, or set a Type on a note." });
+      return;
+    }
+
+    const selected = this.selectedType;
+    new Setting(contentEl)
+      .setName("Extends")
+      .setDesc("Notes of this Type also get the parent Type's properties, listed before its own.")
+      .addDropdown((dd) => {
+        dd.addOption("", "None");
+        types.filter((t) => t !== selected).forEach((t) => dd.addOption(t, t));
+        dd.setValue(this.draftParent ?? "");
+        dd.onChange((v) => {
+          this.draftParent = v || null;
+          this.markDirty();
+          this.render();
+        });
+      });
+
+    // inherited keys follow the drafted parent, so changing it previews the new chain
+    const parent = this.draftParent;
+    const inherited = parent
+      ? [
+          ...this.plugin.getInheritedKeys(parent),
+          { parent, keys: (this.plugin.getSchemaCopy(parent)?.keysOrdered ?? []).filter((k) => k !== TYPE_KEY) },
+        ]
+      : [];
+    inherited.forEach((group) => {
+      if (group.keys.length === 0) return;
+      contentEl.createEl("div", {
+        text: `Inherited from "${group.parent}": ${group.keys.join(", ")}`,
+        cls: "setting-item-description",
+      });
+    });
+
+    const scope = this.plugin.getSchemaCopy(selected);
+    new Setting(contentEl)
+      .setName("New notes")
+      .setDesc("Folder and file name for \"New note of Type…\". Supports {{type}}, {{date[:format]}} and {{time[:format]}}. Saved when you leave the field.")
+      .addText((text) => {
+        text.setPlaceholder("Folder").setValue(scope?.newNoteFolder ?? "");
+        text.inputEl.addEventListener("blur", () => {
+          const name = this.plugin.getSchemaCopy(selected)?.newNoteName ?? "";
+          this.plugin.setNewNoteOptions(selected, text.getValue(), name).catch((e) => console.error("TypeSync new note options error", e));
+        });
+      })
+      .addText((text) => {
+        text.setPlaceholder(DEFAULT_NEW_NOTE_NAME).setValue(scope?.newNoteName ?? "");
+        text.inputEl.addEventListener("blur", () => {
+          const folder = this.plugin.getSchemaCopy(selected)?.newNoteFolder ?? "";
+          this.plugin.setNewNoteOptions(selected, folder, text.getValue()).catch((e) => console.error("TypeSync new note options error", e));
+        });
+      });
+
+    new Setting(contentEl)
+      .setName("Paths")
+      .setDesc("Comma-separated globs. Outside these paths, notes are not treated as this Type. Saved when you leave the field.")
+      .addText((text) => {
+        text.setPlaceholder("Include (anywhere)").setValue((scope?.include ?? []).join(", "));
+        text.inputEl.addEventListener("blur", () => {
+          const exclude = this.plugin.getSchemaCopy(selected)?.exclude ?? [];
+          this.plugin.setTypeScope(selected, parseGlobList(text.getValue()), exclude).catch((e) => console.error("TypeSync scope error", e));
+        });
+      })
+      .addText((text) => {
+        text.setPlaceholder("Exclude").setValue((scope?.exclude ?? []).join(", "));
+        text.inputEl.addEventListener("blur", () => {
+          const include = this.plugin.getSchemaCopy(selected)?.include ?? [];
+          this.plugin.setTypeScope(selected, include, parseGlobList(text.getValue())).catch((e) => console.error("TypeSync scope error", e));
+        });
+      });
+
+    const list = contentEl.createDiv({ cls: "typesync-schema-keys" });
+    this.draftKeys.forEach((draft, index) => this.renderKeyRow(list, draft, index));
+
+    let newKey = "";
+    new Setting(contentEl)
+      .setName("Add property")
+      .addText((text) => {
+        text.setPlaceholder("Property name");
+        text.onChange((v) => {
+          newKey = v.trim();
+        });
+      })
+      .addButton((btn) =>
+        btn.setButtonText("Add").onClick(() => {
+          if (!newKey) return;
+          if (this.draftKeys.some((d) => d.key === newKey)) {
+            new Notice(`TypeSync: "${newKey}" is already in this schema.`);
+            return;
+          }
+          this.draftKeys.push({ key: newKey, from: null, def: {} });
+          this.markDirty();
+          this.render();
+        })
+      );
+
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    const saveBtn = row.createEl("button", { text: "Save and apply" });
+    saveBtn.classList.add("mod-cta");
+    saveBtn.addEventListener("click", () => {
+      this.save().catch((e) => console.error("TypeSync schema editor save error", e));
+    });
+
+    const discardBtn = row.createEl("button", { text: "Discard changes" });
+    discardBtn.addEventListener("click", () => {
+      this.loadDraft(this.selectedType);
+      this.render();
+    });
+  }
+
+  private renderKeyRow(list: HTMLElement, draft: SchemaKeyDraft, index: number): void {
+    const isTypeKey = draft.from === TYPE_KEY;
+    const rowEl = list.createDiv({ cls: "typesync-schema-key-row" });
+    rowEl.draggable = true;
+
+    rowEl.addEventListener("dragstart", (e) => {
+      this.dragIndex = index;
+      e.dataTransfer?.setData("text/plain", String(index));
+    });
+    rowEl.addEventListener("dragover", (e) => e.preventDefault());
+    rowEl.addEventListener("drop", (e) => {
+      e.preventDefault();
+      const from = this.dragIndex;
+      this.dragIndex = null;
+      if (from === null || from === index) return;
+      const [moved] = this.draftKeys.splice(from, 1);
+      if (!moved) return;
+      this.draftKeys.splice(index, 0, moved);
+      this.markDirty();
+      this.render();
+    });
+
+    const setting = new Setting(rowEl).setName("⋮⋮");
+
+    setting.addText((text) => {
+      text.setValue(draft.key);
+      text.setDisabled(isTypeKey);
+      text.onChange((v) => {
+        draft.key = v.trim();
+        this.markDirty();
+      });
+    });
+
+    if (isTypeKey) return;
+
+    setting.addDropdown((dd) => {
+      dd.addOption("", "Any");
+      PROPERTY_TYPES.forEach((t) => dd.addOption(t, t));
+      dd.setValue(draft.def.type ?? "");
+      dd.onChange((v) => {
+        if (v) draft.def.type = v as PropertyType;
+        else delete draft.def.type;
+        this.markDirty();
+      });
+    });
+
+    setting.addText((text) => {
+      text.setPlaceholder("Default");
+      text.setValue(formatDefaultValue(draft.def.default));
+      text.onChange((v) => {
+        const parsed = parseDefaultInput(v);
+        if (parsed === undefined) delete draft.def.default;
+        else draft.def.default = parsed;
+        this.markDirty();
+      });
+    });
+
+    setting.addExtraButton((btn) =>
+      btn.setIcon("trash").setTooltip("Remove property").onClick(() => {
+        this.draftKeys.splice(index, 1);
+        this.markDirty();
+        this.render();
+      })
+    );
+
+    renderPropertyRules(
+      new Setting(rowEl).setDesc("Required, pattern, allowed values"),
+      () => draft.def,
+      (def) => {
+        draft.def = def;
+        this.markDirty();
+      }
+    );
+    renderComputedControl(
+      new Setting(rowEl).setDesc("Computed value"),
+      () => draft.def,
+      (def) => {
+        draft.def = def;
+        this.markDirty();
+      }
+    );
+  }
+
+  private async save(): Promise<void> {
+    const typeValue = this.selectedType;
+    if (!typeValue) return;
+
+    const seen = new Set<string>();
+    for (const d of this.draftKeys) {
+      if (!d.key) { new Notice("TypeSync: property names cannot be empty."); return; }
+      if (INTERNAL_KEYS.has(d.key)) { new Notice(`TypeSync: "${d.key}" is reserved.`); return; }
+      if (seen.has(d.key)) { new Notice(`TypeSync: "${d.key}" appears twice.`); return; }
+      seen.add(d.key);
+    }
+
+    this.dirty = false;
+    await this.plugin.applySchemaEdit(typeValue, this.draftKeys, this.draftParent);
+    this.loadDraft(typeValue);
+    this.render();
+  }
+}
+
+// Suggests a property's allowed values while its value is typed in the frontmatter (source mode).
+class AllowedValueSuggest extends EditorSuggest<string> {
+  private activeKey = "";
+  private valueStart = 0; // where the value begins, before any opening quote or bracket
+  private opener = "";
+
+  constructor(app: App, private plugin: TypeSyncPlugin) {
+    super(app);
+  }
+
+  onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+    if (!file || cursor.line === 0 || editor.getLine(0) !== "---") return null;
+    for (let i = 1; i < cursor.line; i++) {
+      if (editor.getLine(i) === "---") return null; // cursor is past the frontmatter
+    }
+
+    const line = editor.getLine(cursor.line).slice(0, cursor.ch);
+    let key: string | null = null;
+    let valueStart = 0;
+
+    const keyLine = line.match(/^([^\s#:-][^:]*):[ \t]*/);
+    const itemLine = line.match(/^\s*-[ \t]*/);
+    if (keyLine) {
+      key = keyLine[1]!.trim();
+      valueStart = keyLine[0].length;
+    } else if (itemLine) {
+      // list item: the owning key is the nearest top-level key above
+      for (let i = cursor.line - 1; i > 0; i--) {
+        const m = editor.getLine(i).match(/^([^\s#:-][^:]*):/);
+        if (m) {
+          key = m[1]!.trim();
+          break;
+        }
+      }
+      valueStart = itemLine[0].length;
+    }
+    if (!key || this.plugin.getAllowedValues(file, key).length === 0) return null;
+
+    const opener = line.charAt(valueStart);
+    const query = /["'\[]/.test(opener) ? line.slice(valueStart + 1) : line.slice(valueStart);
+    if (/[,\]]/.test(query)) return null; // inside a flow list past the first item
+    this.activeKey = key;
+    this.valueStart = valueStart;
+    this.opener = /["'\[]/.test(opener) ? opener : "";
+    return {
+      start: { line: cursor.line, ch: cursor.ch - query.length },
+      end: cursor,
+      query,
+    };
+  }
+
+  getSuggestions(context: EditorSuggestContext): string[] {
+    const needle = context.query.trim().toLowerCase();
+    return this.plugin
+      .getAllowedValues(context.file, this.activeKey)
+      .map((v) => formatDefaultValue(v))
+      .filter((v) => v.toLowerCase().includes(needle));
+  }
+
+  renderSuggestion(value: string, el: HTMLElement): void {
+    el.setText(value);
+  }
+
+  // Rewrites the whole value so an opening quote or bracket is closed again; a closer the
+  // editor auto-inserted after the cursor is replaced too.
+  selectSuggestion(value: string): void {
+    const context = this.context;
+    if (!context) return;
+    const closer = this.opener === "[" ? "]" : this.opener;
+    const end = { ...context.end };
+    if (closer && context.editor.getLine(end.line).charAt(end.ch) === closer) end.ch++;
+
+    let text = value;
+    if (this.opener === '"') text = JSON.stringify(value);
+    else if (this.opener === "'") text = `'${value.replace(/'/g, "''")}'`;
+    else if (this.opener === "[") text = `[${/[,[\]{}#:"']/.test(value) ? JSON.stringify(value) : value}]`;
+    context.editor.replaceRange(text, { line: context.start.line, ch: this.valueStart }, end);
+  }
+}
+
+function applyValueTransform(t: ValueTransform, source: Record<string, any>, out: Record<string, any>): void {
+  const has = (k: string) => Object.prototype.hasOwnProperty.call(out, k);
+  const value = has(t.key) ? out[t.key] : source[t.key];
+  if (value === undefined || value === null || value === "") return;
+
+  switch (t.kind) {
+    case "split": {
+      if (typeof value !== "string") return;
+      const parts = value.split(t.separator || DEFAULT_SPLIT_SEPARATOR).map((p) => p.trim());
+      (t.into ?? []).forEach((k, i) => {
+        if (has(k) && parts[i] !== undefined) out[k] = parts[i];
+      });
+      return;
+    }
+    case "list":
+      if (has(t.key) && !Array.isArray(value)) out[t.key] = [value];
+      return;
+    case "ratio": {
+      const m = typeof value === "string" ? value.match(/^\s*(-?\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/) : null;
+      if (has(t.key) && m && Number(m[2]) !== 0) out[t.key] = Number(m[1]) / Number(m[2]);
+      return;
+    }
+    case "rename":
+      return; // planSchemaRewrite turns these into key renames
+    case "link": {
+      const toLink = (v: any) => (typeof v === "string" && v.trim() && !/^\[\[.*\]\]$/.test(v.trim()) ? `[[${v.trim()}]]` : v);
+      if (has(t.key)) out[t.key] = Array.isArray(value) ? value.map(toLink) : toLink(value);
+      return;
+    }
+  }
+}
+
+function describeTransform(t: ValueTransform): string {
+  if (t.kind === "rename") return `${t.key} → ${(t.into ?? [])[0] ?? ""}`;
+  if (t.kind === "split") return `${t.key}: split on "${t.separator || DEFAULT_SPLIT_SEPARATOR}" into ${(t.into ?? []).join(", ")}`;
+  return `${t.key}: ${TRANSFORM_LABELS[t.kind].toLowerCase()}`;
+}
+
+class ValueMigrationModal extends Modal {
+  private drafts: ValueTransform[] = [];
+
+  constructor(
+    app: App,
+    private typeValue: TypeName,
+    private keys: string[],
+    private onSubmit: (transforms: ValueTransform[]) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    if (this.drafts.length === 0) this.addDraft();
+    this.render();
+  }
+
+  private addDraft(): void {
+    this.drafts.push({ kind: "list", key: this.keys[0] ?? "" });
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    contentEl.createEl("p", { text: `Transform values of Type "${this.typeValue}". Transforms run in order.` });
+
+    this.drafts.forEach((draft, i) => {
+      const setting = new Setting(contentEl)
+        .addDropdown((dd) => {
+          this.keys.forEach((k) => dd.addOption(k, k));
+          dd.setValue(draft.key);
+          dd.onChange((v) => {
+            draft.key = v;
+          });
+        })
+        .addDropdown((dd) => {
+          (Object.keys(TRANSFORM_LABELS) as TransformKind[])
+            .filter((k) => k !== "rename")
+            .forEach((k) => dd.addOption(k, TRANSFORM_LABELS[k]));
+          dd.setValue(draft.kind);
+          dd.onChange((v) => {
+            draft.kind = v as TransformKind;
+            if (draft.kind !== "split") {
+              delete draft.into;
+              delete draft.separator;
+            }
+            this.render();
+          });
+        });
+
+      if (draft.kind === "split") {
+        setting
+          .addText((text) =>
+            text
+              .setPlaceholder("Into keys, e.g. last, first")
+              .setValue((draft.into ?? []).join(", "))
+              .onChange((v) => {
+                draft.into = v.split(",").map((k) => k.trim()).filter((k) => k.length > 0);
+              })
+          )
+          .addText((text) =>
+            text
+              .setPlaceholder(`Separator (${DEFAULT_SPLIT_SEPARATOR})`)
+              .setValue(draft.separator ?? "")
+              .onChange((v) => {
+                if (v) draft.separator = v;
+                else delete draft.separator;
+              })
+          );
+      }
+
+      setting.addExtraButton((btn) =>
+        btn.setIcon("trash").setTooltip("Remove").onClick(() => {
+          this.drafts.splice(i, 1);
+          this.render();
+        })
+      );
+    });
+
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    const addBtn = row.createEl("button", { text: "Add transform" });
+    addBtn.addEventListener("click", () => {
+      this.addDraft();
+      this.render();
+    });
+
+    const previewBtn = row.createEl("button", { text: "Preview" });
+    previewBtn.classList.add("mod-cta");
+    previewBtn.addEventListener("click", () => {
+      const transforms = this.drafts.filter((d) => d.key && (d.kind !== "split" || (d.into ?? []).length > 0));
+      if (transforms.length === 0) return;
+      this.close();
+      this.onSubmit(transforms.map((d) => ({ ...d })));
+    });
+
+    const cancelBtn = row.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+// Combines two values of the same property: lists are joined without duplicates,
+// differing scalars become a two-item list and empty values give way to the other side.
+function mergePropertyValues(into: any, from: any): any {
+  const isEmpty = (v: any) => v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0);
+  if (isEmpty(into)) return from;
+  if (isEmpty(from)) return into;
+  const items = [...(Array.isArray(into) ? into : [into]), ...(Array.isArray(from) ? from : [from])];
+  const unique = items.filter((v, i) => items.findIndex((o) => JSON.stringify(o) === JSON.stringify(v)) === i);
+  return unique.length === 1 && !Array.isArray(into) && !Array.isArray(from) ? unique[0] : unique;
+}
+
+// Renames in the order they happened, with chains followed to their end: after a→b and b→c,
+// a note that still has "a" gets a→c. Renames that lead back to their own key are dropped.
+function composeRenames(renames: KeyRename[]): KeyRename[] {
+  const composed: KeyRename[] = [];
+  for (const r of renames) {
+    for (const c of composed) {
+      if (c.to === r.from) Object.assign(c, { to: r.to, onConflict: r.onConflict });
+    }
+    composed.push({ ...r });
+  }
+  return composed.filter((r) => r.from !== r.to);
+}
+
+class RenamePropertyModal extends Modal {
+  private from: string;
+  private to = "";
+  private onConflict: RenameConflict = "merge";
+
+  constructor(
+    app: App,
+    private typeValue: TypeName,
+    private keys: string[],
+    private onSubmit: (from: string, to: string, onConflict: RenameConflict) => void
+  ) {
+    super(app);
+    this.from = keys[0] ?? "";
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    contentEl.createEl("p", { text: `Rename a property of Type "${this.typeValue}" and move its values in every note of that Type.` });
+
+    new Setting(contentEl).setName("Property").addDropdown((dd) => {
+      this.keys.forEach((k) => dd.addOption(k, k));
+      dd.setValue(this.from);
+      dd.onChange((v) => {
+        this.from = v;
+      });
+    });
+
+    new Setting(contentEl).setName("New name").addText((text) =>
+      text.setValue(this.to).onChange((v) => {
+        this.to = v.trim();
+      })
+    );
+
+    new Setting(contentEl)
+      .setName("When a note has both")
+      .setDesc("Notes that already hold a value under the new name.")
+      .addDropdown((dd) => {
+        dd.addOption("merge", "Merge both values");
+        dd.addOption("from", "Keep the renamed property's value");
+        dd.addOption("to", "Keep the existing value");
+        dd.setValue(this.onConflict);
+        dd.onChange((v) => {
+          this.onConflict = v as RenameConflict;
+        });
+      });
+
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    const okBtn = row.createEl("button", { text: "Rename" });
+    okBtn.classList.add("mod-cta");
+    okBtn.addEventListener("click", () => {
+      if (!this.from || !this.to || this.from === this.to) return;
+      this.close();
+      this.onSubmit(this.from, this.to, this.onConflict);
+    });
+
+    const cancelBtn = row.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+// Keys of the merged Type that the target lacks map to one of the target's own keys,
+// or to "" to join the target's schema under their own name.
+class MergeTypesModal extends Modal {
+  private mapping: Record<string, string> = {};
+
+  constructor(
+    app: App,
+    private fromType: TypeName,
+    private intoType: TypeName,
+    private fromOnlyKeys: string[],
+    private intoOnlyKeys: string[],
+    private onSubmit: (mapping: Record<string, string>) => void
+  ) {
+    super(app);
+    fromOnlyKeys.forEach((k) => (this.mapping[k] = ""));
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    contentEl.createEl("p", {
+      text: `Merge Type "${this.fromType}" into "${this.intoType}". Its notes are retyped and its schema is deleted.`,
+    });
+
+    if (this.fromOnlyKeys.length === 0) {
+      contentEl.createEl("p", { text: `"${this.intoType}" already has every property of "${this.fromType}".` });
+    } else {
+      contentEl.createEl("p", { text: `Properties only "${this.fromType}" has:` });
+      for (const key of this.fromOnlyKeys) {
+        new Setting(contentEl).setName(key).addDropdown((dd) => {
+          dd.addOption("", `Add to "${this.intoType}"`);
+          this.intoOnlyKeys.forEach((k) => dd.addOption(k, `Move values to ${k}`));
+          dd.setValue(this.mapping[key] ?? "");
+          dd.onChange((v) => {
+            this.mapping[key] = v;
+          });
+        });
+      }
+    }
+
+    const row = contentEl.createDiv({ cls: "typesync-progress-row" });
+    const okBtn = row.createEl("button", { text: "Merge" });
+    okBtn.classList.add("mod-cta");
+    okBtn.addEventListener("click", () => {
+      this.close();
+      this.onSubmit({ ...this.mapping });
+    });
+
+    const cancelBtn = row.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+type OffListGroup = {
+  typeValue: TypeName;
+  key: string;
+  allowed: any[];
+  values: { value: any; files: TFile[] }[];
+};
+
+class OffListValuesModal extends Modal {
+  constructor(
+    app: App,
+    private groups: OffListGroup[],
+    private onRemap: (group: OffListGroup, from: any, to: any) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("TypeSync");
+
+    if (this.groups.length === 0) {
+      contentEl.createEl("p", { text: "No notes hold values outside their allowed lists." });
+      return;
+    }
+
+    contentEl.createEl("p", { text: "Values outside the allowed list:" });
+
+    for (const group of this.groups) {
+      const section = contentEl.createDiv({ cls: "typesync-schema-summary" });
+      new Setting(section).setName(`Type "${group.typeValue}" • ${group.key}`).setHeading();
+
+      for (const entry of group.values) {
+        let target = formatDefaultValue(group.allowed[0]);
+        new Setting(section)
+          .setName(describeValue(entry.value))
+          .setDesc(`${entry.files.length} note(s): ${entry.files.slice(0, 3).map((f) => f.basename).join(", ")}${entry.files.length > 3 ? ", …" : ""}`)
+          .addDropdown((dd) => {
+            group.allowed.forEach((v) => dd.addOption(formatDefaultValue(v), formatDefaultValue(v)));
+            dd.setValue(target);
+            dd.onChange((v) => {
+              target = v;
+            });
+          })
+          .addButton((btn) =>
+            btn.setButtonText("Remap").onClick(() => {
+              const to = group.allowed.find((v) => formatDefaultValue(v) === target);
+              if (to === undefined) return;
+              this.close();
+              this.onRemap(group, entry.value, to);
+            })
+          );
+      }
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+const VALIDATION_VIEW_TYPE = "typesync-validation";
+
+class ValidationView extends ItemView {
+  constructor(leaf: WorkspaceLeaf, private plugin: TypeSyncPlugin) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return VALIDATION_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "TypeSync validation";
+  }
+
+  getIcon(): string {
+    return "shield-alert";
+  }
+
+  async onOpen(): Promise<void> {
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h4", { text: "TypeSync validation" });
+
+    const entries = this.plugin.getValidationIssues();
+    if (entries.length === 0) {
+      contentEl.createEl("p", { text: "No notes break their schema's rules." });
+      return;
+    }
+
+    for (const entry of entries) {
+      new Setting(contentEl)
+        .setName(entry.file.path)
+        .setDesc(entry.issues.map((i) => `${i.key}: ${i.message}`).join(" • "))
+        .addExtraButton((btn) =>
+          btn.setIcon("file-text").setTooltip("Open note").onClick(() => {
+            this.app.workspace.getLeaf(false).openFile(entry.file).catch((e) => console.error("TypeSync open error", e));
+          })
+        );
+    }
+  }
+}
+
+const HEALTH_REPORT_VIEW_TYPE = "typesync-health-report";
+
+type HealthIssueKind = "unparsable" | "no-schema" | "keys" | "order" | "missing-rev" | "stale-rev" | "ahead";
+
+const HEALTH_ISSUE_LABELS: Record<HealthIssueKind, string> = {
+  unparsable: "Frontmatter fails to parse",
+  "no-schema": "Type has no schema",
+  keys: "Key set differs from schema",
+  order: "Key order differs from schema",
+  "missing-rev": "Missing revision markers",
+  "stale-rev": "Behind the schema revision",
+  ahead: "Ahead of the schema revision",
+};
+
+type HealthIssue = {
+  file: TFile;
+  typeLabel: string; // "" when the note couldn't be read
+  kind: HealthIssueKind;
+  detail: string;
+  fixable: boolean; // reconcile would change the note with the current settings
+};
+
+type HealthSort = "issue" | "type" | "path";
+
+class HealthReportView extends ItemView {
+  private issues: HealthIssue[] | null = null;
+  private sort: HealthSort = "issue";
+  private scanning = false;
+
+  constructor(leaf: WorkspaceLeaf, private plugin: TypeSyncPlugin) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return HEALTH_REPORT_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "TypeSync health report";
+  }
+
+  getIcon(): string {
+    return "stethoscope";
+  }
+
+  async onOpen(): Promise<void> {
+    await this.refresh();
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  async refresh(): Promise<void> {
+    if (this.scanning) return;
+    this.scanning = true;
+    this.render();
+    try {
+      this.issues = await this.plugin.buildHealthReport();
+    } finally {
+      this.scanning = false;
+    }
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h4", { text: "TypeSync health report" });
+
+    new Setting(contentEl)
+      .setName("Group by")
+      .addDropdown((dd) =>
+        dd
+          .addOption("issue", "Issue")
+          .addOption("type", "Type")
+          .addOption("path", "Path")
+          .setValue(this.sort)
+          .onChange((v) => {
+            this.sort = v as HealthSort;
+            this.render();
+          })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Rescan").setDisabled(this.scanning).onClick(() => {
+          this.refresh().catch((e) => console.error("TypeSync health report error", e));
+        })
+      );
+
+    if (this.scanning || !this.issues) {
+      contentEl.createEl("p", { text: "Scanning notes…" });
+      return;
+    }
+    if (this.issues.length === 0) {
+      contentEl.createEl("p", { text: "All typed notes match their schemas." });
+      return;
+    }
+
+    for (const [label, issues] of this.groupIssues(this.issues)) {
+      const section = contentEl.createDiv({ cls: "typesync-schema-summary" });
+      const heading = new Setting(section).setName(`${label} (${issues.length})`).setHeading();
+      const fixable = issues.filter((i) => this.isFixable(i));
+      if (fixable.length > 0) {
+        heading.addButton((btn) =>
+          btn.setButtonText("Reconcile all in group").onClick(() => this.reconcile(fixable))
+        );
+      }
+
+      issues.forEach((issue) => {
+        const row = new Setting(section)
+          .setName(this.sort === "path" ? HEALTH_ISSUE_LABELS[issue.kind] : issue.file.path)
+          .setDesc(this.describeIssue(issue))
+          .addExtraButton((btn) =>
+            btn.setIcon("file-text").setTooltip("Open note").onClick(() => {
+              this.app.workspace.getLeaf(false).openFile(issue.file).catch((e) => console.error("TypeSync open error", e));
+            })
+          );
+        if (this.isFixable(issue)) {
+          row.addButton((btn) => btn.setButtonText("Reconcile this note").onClick(() => this.reconcile([issue])));
+        }
+      });
+    }
+  }
+
+  private groupIssues(issues: HealthIssue[]): [string, HealthIssue[]][] {
+    const keyOf = (i: HealthIssue): string =>
+      this.sort === "issue" ? HEALTH_ISSUE_LABELS[i.kind] : this.sort === "type" ? i.typeLabel || "(unreadable)" : i.file.path;
+    const groups = new Map<string, HealthIssue[]>();
+    for (const issue of issues) {
+      const key = keyOf(issue);
+      groups.set(key, [...(groups.get(key) ?? []), issue]);
+    }
+    const kindOrder = Object.keys(HEALTH_ISSUE_LABELS) as HealthIssueKind[];
+    const sorted = [...groups.entries()];
+    if (this.sort === "issue") {
+      sorted.sort((a, b) => kindOrder.indexOf(a[1][0]!.kind) - kindOrder.indexOf(b[1][0]!.kind));
+    } else {
+      sorted.sort((a, b) => a[0].localeCompare(b[0]));
+    }
+    for (const [, list] of sorted) list.sort((a, b) => a.file.path.localeCompare(b.file.path));
+    return sorted;
+  }
+
+  private describeIssue(issue: HealthIssue): string {
+    const parts: string[] = [];
+    if (this.sort !== "type" && issue.typeLabel) parts.push(`Type "${issue.typeLabel}"`);
+    if (this.sort !== "issue" && this.sort !== "path") parts.push(HEALTH_ISSUE_LABELS[issue.kind]);
+    if (issue.detail) parts.push(issue.detail);
+    return parts.join(" • ");
+  }
+
+  private isFixable(issue: HealthIssue): boolean {
+    return issue.fixable;
+  }
+
+  private reconcile(issues: HealthIssue[]): void {
+    const files = issues.map((i) => i.file).filter((f, idx, all) => all.indexOf(f) === idx);
+    this.plugin
+      .reconcileFiles(files)
+      .then(() => this.refresh())
+      .catch((e) => console.error("TypeSync health reconcile error", e));
+  }
+}
+
+class TypeSyncSettingTab extends PluginSettingTab {
+  constructor(app: App, private plugin: TypeSyncPlugin) {
+    super(app, plugin);
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+
+    containerEl.createEl("h2", { text: "TypeSync" });
+
+    new Setting(containerEl)
+      .setName("Sync property order")
+      .setDesc("If enabled, reordering properties in one note will silently propagate to the schema and all notes of that Type.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.syncOrder)
+          .onChange(async (v) => {
+            this.plugin.settings.syncOrder = v;
+            await this.plugin.savePluginData();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Sync property removals")
+      .setDesc("If enabled, properties removed from the schema are removed from notes when applying the schema.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.syncPropertyRemovals)
+          .onChange(async (v) => {
+            this.plugin.settings.syncPropertyRemovals = v;
+            await this.plugin.savePluginData();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Type keys")
+      .setDesc("Comma-separated frontmatter keys that hold a note's Type, checked in order. The first is used when TypeSync writes a Type.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Type")
+          .setValue(this.plugin.settings.typeKeys.join(", "))
+          .onChange(async (v) => {
+            const keys = v.split(",").map((k) => k.trim()).filter((k) => k.length > 0);
+            this.plugin.settings.typeKeys = keys.length > 0 ? keys : ["Type"];
+            await this.plugin.savePluginData();
+            this.plugin.scheduleSnapshotRefresh();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Type tag prefix")
+      .setDesc('Derive the Type from a tag with this prefix, e.g. "type/" makes #type/book a Book. Leave empty to disable.')
+      .addText((text) =>
+        text
+          .setPlaceholder("type/")
+          .setValue(this.plugin.settings.typeTagPrefix)
+          .onChange(async (v) => {
+            this.plugin.settings.typeTagPrefix = v.trim().replace(/^#/, "");
+            await this.plugin.savePluginData();
+            this.plugin.scheduleSnapshotRefresh();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Folder types")
+      .setDesc('One rule per line as "folder/path: Type". Applies to notes without a type key or tag.')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Reading/Books: Book")
+          .setValue(
+            Object.entries(this.plugin.settings.typeFolders)
+              .map(([folder, typeValue]) => `${folder}: ${typeValue}`)
+              .join("\n")
+          )
+          .onChange(async (v) => {
+            const folders: Record<string, string> = {};
+            for (const line of v.split("\n")) {
+              const idx = line.lastIndexOf(":");
+              if (idx <= 0) continue;
+              const folder = line.slice(0, idx).trim().replace(/\/+$/, "");
+              const typeValue = line.slice(idx + 1).trim();
+              if (folder && typeValue) folders[folder] = typeValue;
+            }
+            this.plugin.settings.typeFolders = folders;
+            await this.plugin.savePluginData();
+            this.plugin.scheduleSnapshotRefresh();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Multiple Types")
+      .setDesc("For notes with a list of Types: which Type's property order and definitions win when they disagree.")
+      .addDropdown((dd) =>
+        dd
+          .addOption("first", "First listed Type wins")
+          .addOption("last", "Last listed Type wins")
+          .setValue(this.plugin.settings.multiTypePrecedence)
+          .onChange(async (v) => {
+            this.plugin.settings.multiTypePrecedence = v === "last" ? "last" : "first";
+            await this.plugin.savePluginData();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Included paths")
+      .setDesc('Only notes matching these globs are synced, one per line (e.g. "Notes/**"). Leave empty to sync the whole vault.')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Notes/**")
+          .setValue(this.plugin.settings.includeGlobs.join("\n"))
+          .onChange(async (v) => {
+            this.plugin.settings.includeGlobs = parseGlobList(v);
+            await this.plugin.savePluginData();
+            this.plugin.scheduleSnapshotRefresh();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Excluded paths")
+      .setDesc("Notes matching these globs are never synced, even when included. A folder name covers everything inside it.")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Templates\nArchive/**")
+          .setValue(this.plugin.settings.excludeGlobs.join("\n"))
+          .onChange(async (v) => {
+            this.plugin.settings.excludeGlobs = parseGlobList(v);
+            await this.plugin.savePluginData();
+            this.plugin.scheduleSnapshotRefresh();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Warn when saving an invalid note")
+      .setDesc("Show a notice when a note you leave or close is missing a required property or has a value its schema doesn't allow.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.warnOnInvalidSave)
+          .onChange(async (v) => {
+            this.plugin.settings.warnOnInvalidSave = v;
+            await this.plugin.savePluginData();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Template folder")
+      .setDesc("Templates here receive schema key and order updates, but editing them never changes a schema. Their extra keys and placeholder values are kept as written.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Templates")
+          .setValue(this.plugin.settings.templateFolder)
+          .onChange(async (v) => {
+            this.plugin.settings.templateFolder = v.trim().replace(/^\/+|\/+$/g, "");
+            await this.plugin.savePluginData();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Schema notes folder")
+      .setDesc('Keep each schema as a note in this folder, e.g. "_types/Book.md". Editing a schema note updates the Type like the schema editor does. Leave empty to disable.')
+      .addText((text) =>
+        text
+          .setPlaceholder("_types")
+          .setValue(this.plugin.settings.schemaNotesFolder)
+          .onChange(async (v) => {
+            this.plugin.settings.schemaNotesFolder = v.trim().replace(/^\/+|\/+$/g, "");
+            await this.plugin.savePluginData();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Schemas")
+      .setDesc("Add, remove, rename and reorder the properties of each Type.")
+      .addButton((btn) =>
+        btn.setButtonText("Open schema editor").onClick(() => {
+          this.plugin.openSchemaEditor().catch((e) => console.error("TypeSync open editor error", e));
+        })
+      );
+
+    for (const typeValue of this.plugin.getTypeNames()) {
+      const schema = this.plugin.getSchemaCopy(typeValue);
+      if (!schema) continue;
+      const own = schema.keysOrdered.filter((k) => k !== TYPE_KEY);
+      const lines = [`Own: ${own.length > 0 ? own.join(", ") : "—"}`];
+      for (const group of this.plugin.getInheritedKeys(typeValue)) {
+        lines.push(`From ${group.parent}: ${group.keys.length > 0 ? group.keys.join(", ") : "—"}`);
+      }
+      const desc = createFragment((frag) => {
+        lines.forEach((line, i) => {
+          if (i > 0) frag.createEl("br");
+          frag.appendText(line);
+        });
+      });
+      new Setting(containerEl)
+        .setName(schema.extends ? `${typeValue} (extends ${schema.extends})` : typeValue)
+        .setDesc(desc);
+    }
+  }
+}
+
+export default class TypeSyncPlugin extends Plugin {
+  settings: TypeSyncSettings;
+
+  private schemas: Record<TypeName, TypeSchema> = {};
+  // last revision of each deleted Type, so a sync can tell a deletion from a Type created offline
+  private deletedTypes: Record<TypeName, SchemaRevision> = {};
+  private snapshots: Map<string, Snapshot> = new Map();
+  private pendingTypes: Set<string> = new Set();
+  private pendingStatusEl: HTMLElement | null = null;
+  private validationIssues: Map<string, PropertyIssue[]> = new Map();
+  // broken keys each note was last warned about, so the same problems aren't repeated
+  private warnedIssueKeys: Map<string, string> = new Map();
+  private validationStatusEl: HTMLElement | null = null;
+  private valueIssues: Map<string, PropertyIssue[]> = new Map();
+  private ignoreNextSchemaReload = false;
+  private schemaDataPath = "";
+  private journalDir = "";
+
+  // journal of the bulk operation currently running, if any
+  private activeJournal: JournalOperation | null = null;
+  private activeJournalByPath: Map<string, JournalFileEntry> = new Map();
+
+  // suppression so TypeSync edits never cause prompts
+  private suppressedPaths: Map<string, number> = new Map();
+
+  // debounce modify events per file
+  private debounceTimers: Map<string, number> = new Map();
+
+  // lock schema while modal or bulk op
+  private schemaLocked = false;
+
+  private snapshotRefreshTimer: number | null = null;
+  // mtime right after TypeSync's own last write, so a computed "modified" follows user edits only
+  private ownWriteMtimes: Map<string, number> = new Map();
+  // notes whose computed values, value coercions and invalid-value notice wait until they
+  // are no longer in the active editor
+  private deferredNotes: Set<string> = new Set();
+  // each note's resolved link targets, to find notes whose backlinks changed
+  private outgoingLinks: Map<string, string[]> = new Map();
+  private backlinkTargets: Set<string> = new Set();
+  private backlinkTimer: number | null = null;
+  private schemaNotesTimer: number | null = null;
+  // path and revision each schema note was last written with, so unchanged notes aren't rewritten
+  private writtenSchemaNotes: Map<TypeName, string> = new Map();
+
+  async onload(): Promise<void> {
+    const loaded = await this.loadData();
+    const loadedSettings = (loaded?.settings ?? loaded ?? {}) as Record<string, unknown>;
+    if ("debounceMs" in loadedSettings) {
+      delete loadedSettings.debounceMs;
+    }
+    this.settings = this.normalizeSettings(Object.assign({}, DEFAULT_SETTINGS, loadedSettings));
+    this.schemas = loaded?.schemas ?? loaded?.schemasByType ?? loaded?.schemas ?? {};
+    this.deletedTypes = this.normalizeDeletedTypes(loaded?.deletedTypes);
+    this.schemaDataPath = normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}/data.json`);
+    this.journalDir = normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}/journal`);
+
+    // normalize schemas
+    this.normalizeSchemas(this.schemas);
+
+    this.addSettingTab(new TypeSyncSettingTab(this.app, this));
+    this.registerView(SCHEMA_EDITOR_VIEW_TYPE, (leaf) => new SchemaEditorView(leaf, this));
+    this.registerView(HEALTH_REPORT_VIEW_TYPE, (leaf) => new HealthReportView(leaf, this));
+    this.registerView(VALIDATION_VIEW_TYPE, (leaf) => new ValidationView(leaf, this));
+
+    this.registerEditorSuggest(new AllowedValueSuggest(this.app, this));
+
+    this.validationStatusEl = this.addStatusBarItem();
+    this.validationStatusEl.addClass("mod-clickable");
+    this.validationStatusEl.addEventListener("click", () => {
+      this.openValidationView().catch((e) => console.error("TypeSync validation view error", e));
+    });
+    this.updateValidationStatus();
+
+    this.pendingStatusEl = this.addStatusBarItem();
+    this.pendingStatusEl.addClass("mod-clickable");
+    this.pendingStatusEl.addEventListener("click", () => {
+      this.openPendingNotes().catch((e) => console.error("TypeSync pending notes error", e));
+    });
+    this.updatePendingStatus();
+
+    this.addCommand({
+      id: "typesync-open-validation",
+      name: "TypeSync: Open Validation Panel",
+      callback: async () => {
+        await this.openValidationView();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-off-list-values",
+      name: "TypeSync: Report Values Outside Allowed Lists",
+      callback: () => {
+        new OffListValuesModal(this.app, this.collectOffListValues(), (group, from, to) => {
+          this.remapPropertyValue(group.typeValue, group.key, from, to).catch((e) => console.error("TypeSync remap error", e));
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-rename-property",
+      name: "TypeSync: Rename Property in Type…",
+      callback: () => {
+        const types = this.getTypeNames().filter((t) => this.schemas[t]!.keysOrdered.some((k) => k !== TYPE_KEY));
+        if (types.length === 0) { new Notice("TypeSync: no schemas with properties found."); return; }
+        new TypeSuggestModal(this.app, types, "Type whose property to rename…", (typeValue) => {
+          const keys = this.schemas[typeValue]!.keysOrdered.filter((k) => k !== TYPE_KEY);
+          new RenamePropertyModal(this.app, typeValue, keys, (from, to, onConflict) => {
+            this.renameProperty(typeValue, from, to, onConflict).catch((e) => console.error("TypeSync rename property error", e));
+          }).open();
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-migrate-values",
+      name: "TypeSync: Transform Values in Type…",
+      callback: () => {
+        const types = this.getTypeNames().filter((t) => this.schemas[t]!.keysOrdered.some((k) => k !== TYPE_KEY));
+        if (types.length === 0) { new Notice("TypeSync: no schemas with properties found."); return; }
+        new TypeSuggestModal(this.app, types, "Type whose values to transform…", (typeValue) => {
+          const keys = this.schemas[typeValue]!.keysOrdered.filter((k) => k !== TYPE_KEY);
+          new ValueMigrationModal(this.app, typeValue, keys, (transforms) => {
+            this.migrateValues(typeValue, transforms).catch((e) => console.error("TypeSync migration error", e));
+          }).open();
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-open-health-report",
+      name: "TypeSync: Open Schema Health Report",
+      callback: async () => {
+        await this.openHealthReport();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-notes-ahead-of-schema",
+      name: "TypeSync: Notes Ahead of Schema",
+      callback: async () => {
+        await this.openPendingNotes();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-undo-last-operation",
+      name: "TypeSync: Undo Last TypeSync Operation",
+      callback: async () => {
+        const ops = await this.listJournalOperations();
+        const last = ops[0];
+        if (!last) { new Notice("TypeSync: nothing to undo."); return; }
+        await this.restoreJournalOperation(last);
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-operation-history",
+      name: "TypeSync: Operation History",
+      callback: async () => {
+        const ops = await this.listJournalOperations();
+        new JournalHistoryModal(this.app, ops, (op) => {
+          this.restoreJournalOperation(op).catch((e) => console.error("TypeSync restore error", e));
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-open-schema-editor",
+      name: "TypeSync: Open Schema Editor",
+      callback: async () => {
+        await this.openSchemaEditor();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-new-note-of-type",
+      name: "TypeSync: New Note of Type…",
+      callback: () => {
+        const types = this.getTypeNames();
+        if (types.length === 0) { new Notice("TypeSync: no schemas found."); return; }
+        new TypeSuggestModal(this.app, types, "Type of the new note…", (typeValue) => {
+          this.createNoteOfType(typeValue).catch((e) => {
+            console.error("TypeSync new note error", e);
+            new Notice("TypeSync: could not create the note. See console for details.");
+          });
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-merge-types",
+      name: "TypeSync: Merge Type into Another…",
+      callback: () => {
+        const types = this.getTypeNames();
+        if (types.length < 2) { new Notice("TypeSync: merging needs at least two Types."); return; }
+        new TypeSuggestModal(this.app, types, "Type to merge away…", (fromType) => {
+          // a Type that inherits from the merged one can't absorb it
+          const targets = types.filter((t) => !this.resolveTypeChain(t).includes(fromType));
+          if (targets.length === 0) { new Notice(`TypeSync: no Type can absorb "${fromType}".`); return; }
+          new TypeSuggestModal(this.app, targets, `Merge "${fromType}" into…`, (intoType) => {
+            this.promptMergeTypes(fromType, intoType);
+          }).open();
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-set-type-of-folder",
+      name: "TypeSync: Set Type of Notes in Current Folder…",
+      callback: () => {
+        const folder = this.app.workspace.getActiveFile()?.parent;
+        if (!folder) { new Notice("No active file."); return; }
+        this.chooseTypeForFiles(this.collectSetTypeTargets([folder]));
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-set-type-of-search-results",
+      name: "TypeSync: Set Type of Search Results…",
+      callback: () => {
+        const results = this.getSearchResultFiles();
+        if (typeof results === "string") { new Notice(`TypeSync: ${results}`); return; }
+        this.chooseTypeForFiles(this.collectSetTypeTargets(results));
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-schema-history",
+      name: "TypeSync: Schema History",
+      callback: async () => {
+        const types = this.getTypeNames();
+        if (types.length === 0) { new Notice("TypeSync: no schemas found."); return; }
+        const file = this.app.workspace.getActiveFile();
+        const snap = file?.extension === "md" ? await this.buildSnapshot(file) : null;
+        const typeValue = snap?.typeValue && this.schemas[snap.typeValue] ? snap.typeValue : types[0]!;
+        new SchemaHistoryModal(this.app, this, typeValue).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-export-schemas",
+      name: "TypeSync: Export Schemas…",
+      callback: () => {
+        const types = this.getTypeNames();
+        if (types.length === 0) { new Notice("TypeSync: no schemas found."); return; }
+        new SchemaExportModal(this.app, types, "TypeSync schemas.json", (selected, path) => {
+          this.exportSchemas(selected, path).catch((e) => {
+            console.error("TypeSync export error", e);
+            new Notice("TypeSync: export failed. See console for details.");
+          });
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-import-schemas",
+      name: "TypeSync: Import Schemas…",
+      callback: () => {
+        new SchemaPackFileModal(this.app, (file) => {
+          this.importSchemas(file).catch((e) => {
+            console.error("TypeSync import error", e);
+            new Notice("TypeSync: import failed. See console for details.");
+          });
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-sync-type-to-this-file",
+      name: "TypeSync: Sync Type to This File (schema only)",
+      callback: async () => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) { new Notice("No active file."); return; }
+        if (file.extension !== "md") { new Notice("TypeSync only works on markdown files."); return; }
+
+        const snap = await this.buildSnapshot(file);
+        if (!snap.typeValue) { new Notice(`No "${this.primaryTypeKey()}" set on this note.`); return; }
+        if (snap.typeValues.length > 1) { new Notice("TypeSync: this note has several Types; edit their schemas in the schema editor."); return; }
+        const typeValue = snap.typeValue;
+
+        const cur = this.schemas[typeValue];
+        const rev = this.createSchemaRevision();
+        const schema: TypeSchema = {
+          keysOrdered: [...snap.keysOrdered],
+          rev,
+          lastChangeSummary: this.buildChangeSummary([], [], false, rev),
+          history: this.schemas[typeValue]?.history,
+        };
+        this.pushSchemaHistory(schema);
+        this.schemas[typeValue] = schema;
+        await this.savePluginData();
+        await this.updateLocalSchemaCache();
+        new Notice(`TypeSync: schema for "${typeValue}" set to match this file (no edits made).`);
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-edit-property-types",
+      name: "TypeSync: Edit Property Definitions of Current Type",
+      callback: async () => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) { new Notice("No active file."); return; }
+        if (file.extension !== "md") { new Notice("TypeSync only works on markdown files."); return; }
+
+        const snap = await this.buildSnapshot(file);
+        if (!snap.typeValue) { new Notice(`No "${this.primaryTypeKey()}" set on this note.`); return; }
+        const typeValue = snap.typeValue;
+        const schema = this.schemas[typeValue];
+        if (!schema) { new Notice(`No schema exists for Type "${typeValue}".`); return; }
+
+        new PropertyDefinitionsModal(
+          this.app,
+          typeValue,
+          schema.keysOrdered.filter((k) => k !== TYPE_KEY),
+          schema.properties ?? {},
+          (properties) => {
+            this.applyPropertyTypeChange(typeValue, properties).catch((e) => console.error("TypeSync property type error", e));
+          }
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-reconcile-current-type",
+      name: "TypeSync: Reconcile Current Type",
+      callback: async () => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) { new Notice("No active file."); return; }
+        if (file.extension !== "md") { new Notice("TypeSync only works on markdown files."); return; }
+
+        const snap = await this.buildSnapshot(file);
+        if (!snap.typeValue) { new Notice(`No "${this.primaryTypeKey()}" set on this note.`); return; }
+        const typeValue = snap.typeValue;
+        const schema = this.schemas[typeValue];
+        if (!schema) { new Notice(`No schema exists for Type "${typeValue}".`); return; }
+
+        const files = this.getFilesByType(typeValue);
+        await this.runBulk({
+          title: `Reconciling Type "${typeValue}"`,
+          files,
+          perFile: async (f) => {
+            await this.rewriteToSchema(f, typeValue, { preserveOverlapValues: true });
+          },
+          onDone: (done, total, canceled, failures) => {
+            const flagged = this.countFlaggedFiles(files);
+            new Notice(`TypeSync: Reconciled ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}${flagged ? ` • invalid values in ${flagged} file(s)` : ""}`);
+          },
+        });
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-preview-reconcile-current-type",
+      name: "TypeSync: Preview Reconcile Current Type",
+      callback: async () => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) { new Notice("No active file."); return; }
+        if (file.extension !== "md") { new Notice("TypeSync only works on markdown files."); return; }
+
+        const snap = await this.buildSnapshot(file);
+        if (!snap.typeValue) { new Notice(`No "${this.primaryTypeKey()}" set on this note.`); return; }
+        const typeValue = snap.typeValue;
+        if (!this.schemas[typeValue]) { new Notice(`No schema exists for Type "${typeValue}".`); return; }
+
+        await this.previewReconcile(
+          `Reconciling Type "${typeValue}"`,
+          this.getFilesByType(typeValue).map((f) => ({ file: f, typeValue }))
+        );
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-preview-reconcile-all-types",
+      name: "TypeSync: Preview Reconcile All Types",
+      callback: async () => {
+        if (Object.keys(this.schemas).length === 0) { new Notice("TypeSync: no schemas found."); return; }
+
+        const targets: { file: TFile; typeValue: string }[] = [];
+        for (const f of this.getSyncedFiles()) {
+          try {
+            const snap = await this.buildSnapshot(f);
+            if (snap.typeValue && this.schemas[snap.typeValue]) targets.push({ file: f, typeValue: snap.typeValue });
+          } catch (e) {
+            console.error("TypeSync preview read error", f.path, e);
+          }
+        }
+        await this.previewReconcile("Reconciling all Types", targets);
+      },
+    });
+
+    this.addCommand({
+      id: "typesync-reconcile-all-types",
+      name: "TypeSync: Reconcile All Types",
+      callback: async () => {
+        const allTypes = Object.keys(this.schemas);
+        if (allTypes.length === 0) { new Notice("TypeSync: no schemas found."); return; }
+
+        const files = this.getSyncedFiles();
+        // We'll reconcile by scanning each file's Type and applying its schema
+        await this.runBulk({
+          title: "Reconciling all Types",
+          files,
+          perFile: async (f) => {
+            const snap = await this.buildSnapshot(f);
+            if (!snap.typeValue) return;
+            if (!this.schemas[snap.typeValue]) return;
+            await this.rewriteToSchema(f, snap.typeValue, { preserveOverlapValues: true });
+          },
+          onDone: (done, total, canceled, failures) => {
+            const flagged = this.countFlaggedFiles(files);
+            new Notice(`TypeSync: Reconcile complete ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}${flagged ? ` • invalid values in ${flagged} file(s)` : ""}`);
+          },
+        });
+      },
+    });
+
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        this.snapshots.delete(file.path);
+        this.ownWriteMtimes.delete(file.path);
+        this.outgoingLinks.delete(file.path);
+        this.warnedIssueKeys.delete(file.path);
+        if (this.validationIssues.delete(file.path)) this.onValidationChanged();
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        const snap = this.snapshots.get(oldPath);
+        this.snapshots.delete(oldPath);
+        if (snap && file instanceof TFile) this.snapshots.set(file.path, snap);
+        const mtime = this.ownWriteMtimes.get(oldPath);
+        this.ownWriteMtimes.delete(oldPath);
+        if (mtime !== undefined) this.ownWriteMtimes.set(file.path, mtime);
+        this.warnedIssueKeys.delete(oldPath);
+        const issues = this.validationIssues.get(oldPath);
+        if (!issues) return;
+        this.validationIssues.delete(oldPath);
+        this.validationIssues.set(file.path, issues);
+        this.onValidationChanged();
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        // a folder is only expanded once the item is clicked; a note is checked on its own
+        const inFolder = file instanceof TFolder;
+        if (!inFolder && !(file instanceof TFile && this.isSetTypeTarget(file))) return;
+        menu.addItem((item) =>
+          item
+            .setTitle(inFolder ? "TypeSync: Set Type of notes in folder…" : "TypeSync: Set Type…")
+            .setIcon("tag")
+            .onClick(() => this.chooseTypeForFiles(this.collectSetTypeTargets([file])))
+        );
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("files-menu", (menu, selection) => {
+        const notes = selection.filter((f): f is TFile => f instanceof TFile && this.isSetTypeTarget(f));
+        if (notes.length === 0 && !selection.some((f) => f instanceof TFolder)) return;
+        menu.addItem((item) =>
+          item
+            .setTitle(notes.length === selection.length ? `TypeSync: Set Type of ${notes.length} note(s)…` : "TypeSync: Set Type of selected notes…")
+            .setIcon("tag")
+            .onClick(() => this.chooseTypeForFiles(this.collectSetTypeTargets(selection)))
+        );
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("active-leaf-change", () => {
+        this.flushDeferredNotes().catch((e) => console.error("TypeSync deferred notes error", e));
+      })
+    );
+
+    this.registerEvent(
+      this.app.metadataCache.on("resolve", (file) => {
+        this.trackBacklinkChanges(file);
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (!(file instanceof TFile)) return;
+        if (file.path === this.schemaDataPath) {
+          this.handleSchemaFileModify(file).catch((e) => console.error("TypeSync schema reload error", e));
+          return;
+        }
+        if (file.extension !== "md") return;
+
+        const path = file.path;
+        if (this.isSuppressed(path)) return;
+        const isSchemaNote = this.isSchemaNotePath(path);
+        if (!isSchemaNote && !this.isPathSynced(path)) return;
+
+        // debounce
+        const existing = this.debounceTimers.get(path);
+        if (existing) window.clearTimeout(existing);
 
         const timer = window.setTimeout(() => {
           this.debounceTimers.delete(path);
-          this.handleModify(file).catch((e) => console.error("TypeSync modify error", e));
+          if (isSchemaNote) {
+            this.handleSchemaNoteModify(file).catch((e) => console.error("TypeSync schema note error", e));
+          } else {
+            this.handleModify(file).catch((e) => console.error("TypeSync modify error", e));
+          }
         }, DEBOUNCE_MS);
 
         this.debounceTimers.set(path, timer);
       })
     );
 
-    // seed snapshots
-    await this.seedSnapshots();
+    // seed snapshots
+    await this.seedSnapshots();
+    await this.collectPendingNotes();
+    this.app.workspace.onLayoutReady(() => {
+      this.writeSchemaNotes().catch((e) => console.error("TypeSync schema notes error", e));
+    });
+
+    await this.reportSchemaChangesFromLastSeen();
+  }
+
+  async savePluginData(): Promise<void> {
+    this.ignoreNextSchemaReload = true;
+    this.ensureHistoryEntries(this.schemas);
+    await this.saveData({
+      settings: this.settings,
+      schemas: this.schemas,
+      deletedTypes: this.deletedTypes,
+    });
+    this.refreshSchemaViews();
+    this.scheduleSchemaNotesWrite();
+  }
+
+  // Writing schema notes waits until edits and the folder setting have stopped changing.
+  scheduleSchemaNotesWrite(): void {
+    if (this.schemaNotesTimer) window.clearTimeout(this.schemaNotesTimer);
+    this.schemaNotesTimer = window.setTimeout(() => {
+      this.schemaNotesTimer = null;
+      this.writeSchemaNotes().catch((e) => console.error("TypeSync schema notes error", e));
+    }, 1000);
+  }
+
+  // Re-reads every note's Type after settings that change how types are detected.
+  scheduleSnapshotRefresh(): void {
+    if (this.snapshotRefreshTimer) window.clearTimeout(this.snapshotRefreshTimer);
+    this.snapshotRefreshTimer = window.setTimeout(() => {
+      this.snapshotRefreshTimer = null;
+      this.seedSnapshots().catch((e) => console.error("TypeSync snapshot refresh error", e));
+    }, 1000);
+  }
+
+  private normalizeSettings(settings: TypeSyncSettings): TypeSyncSettings {
+    const keys = Array.isArray(settings.typeKeys)
+      ? settings.typeKeys.map((k) => String(k).trim()).filter((k) => k.length > 0)
+      : [];
+    settings.typeKeys = keys.length > 0 ? keys : [TYPE_KEY];
+    if (typeof settings.typeTagPrefix !== "string") settings.typeTagPrefix = "";
+    if (!settings.typeFolders || typeof settings.typeFolders !== "object") settings.typeFolders = {};
+    if (settings.multiTypePrecedence !== "last") settings.multiTypePrecedence = "first";
+    settings.schemaNotesFolder =
+      typeof settings.schemaNotesFolder === "string" ? settings.schemaNotesFolder.trim().replace(/^\/+|\/+$/g, "") : "";
+    settings.templateFolder =
+      typeof settings.templateFolder === "string" ? settings.templateFolder.trim().replace(/^\/+|\/+$/g, "") : "";
+    settings.includeGlobs = Array.isArray(settings.includeGlobs) ? settings.includeGlobs.map(String) : [];
+    settings.excludeGlobs = Array.isArray(settings.excludeGlobs) ? settings.excludeGlobs.map(String) : [];
+    return settings;
+  }
+
+  async openSchemaEditor(): Promise<void> {
+    const existing = this.app.workspace.getLeavesOfType(SCHEMA_EDITOR_VIEW_TYPE)[0];
+    if (existing) {
+      this.app.workspace.revealLeaf(existing);
+      return;
+    }
+    const leaf = this.app.workspace.getRightLeaf(false) ?? this.app.workspace.getLeaf(true);
+    await leaf.setViewState({ type: SCHEMA_EDITOR_VIEW_TYPE, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  async openHealthReport(): Promise<void> {
+    const existing = this.app.workspace.getLeavesOfType(HEALTH_REPORT_VIEW_TYPE)[0];
+    if (existing) {
+      this.app.workspace.revealLeaf(existing);
+      if (existing.view instanceof HealthReportView) await existing.view.refresh();
+      return;
+    }
+    const leaf = this.app.workspace.getLeaf("tab");
+    await leaf.setViewState({ type: HEALTH_REPORT_VIEW_TYPE, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  // Read-only audit of every note against its schema; nothing is written.
+  async buildHealthReport(): Promise<HealthIssue[]> {
+    const issues: HealthIssue[] = [];
+    for (const file of this.getSyncedFiles()) {
+      let snap: Snapshot;
+      try {
+        snap = await this.buildSnapshot(file);
+      } catch (e) {
+        issues.push({ file, typeLabel: "", kind: "unparsable", detail: e instanceof Error ? e.message.split("\n")[0] ?? "" : "", fixable: false });
+        continue;
+      }
+      if (snap.typeValues.length === 0) continue;
+
+      const typeLabel = snap.typeValues.join(" + ");
+      const isTemplate = this.isTemplatePath(file.path);
+      const missing = snap.typeValues.filter((t) => !this.schemas[t]);
+      if (missing.length > 0) {
+        if (isTemplate) continue; // placeholder Types in templates are expected
+        issues.push({ file, typeLabel, kind: "no-schema", detail: `No schema for ${missing.join(", ")}`, fixable: false });
+        continue;
+      }
+      const schema = this.getEffectiveSchema(snap.typeValues)!;
+
+      // compare as if the schema were the previous state of the note
+      const schemaSnap: Snapshot = { ...snap, keysSet: new Set(schema.keysOrdered), keysOrdered: schema.keysOrdered };
+      const diff = this.computeDiff(schemaSnap, snap);
+      if (isTemplate) diff.added = []; // templates may carry their own keys
+      // reconcile adds missing keys, but only drops extra keys and reorders when those syncs are on
+      const { syncPropertyRemovals, syncOrder } = this.settings;
+      if (diff.added.length > 0 || diff.removed.length > 0) {
+        const parts: string[] = [];
+        if (diff.removed.length > 0) parts.push(`missing ${diff.removed.join(", ")}`);
+        if (diff.added.length > 0) parts.push(`extra ${diff.added.join(", ")}${syncPropertyRemovals ? "" : " (kept, removals are off)"}`);
+        issues.push({ file, typeLabel, kind: "keys", detail: parts.join(" • "), fixable: diff.removed.length > 0 || syncPropertyRemovals });
+      }
+      const noteOrder = snap.keysOrdered.filter((k) => schema.keysOrdered.includes(k));
+      const schemaOrder = schema.keysOrdered.filter((k) => snap.keysSet.has(k));
+      if (diff.orderChanged || !this.valuesEqual(noteOrder, schemaOrder)) {
+        issues.push({ file, typeLabel, kind: "order", detail: syncOrder ? "" : "kept, order sync is off", fixable: syncOrder });
+      }
+
+      // notes ahead of the schema need a human to adopt or pull them back
+      if (!snap.noteRev) {
+        issues.push({ file, typeLabel, kind: "missing-rev", detail: "", fixable: true });
+      } else if (this.isSchemaAheadOfNote(schema.rev, snap.noteRev)) {
+        issues.push({ file, typeLabel, kind: "stale-rev", detail: `note ${new Date(snap.noteRev.updatedAt).toLocaleString()}`, fixable: true });
+      } else if (this.isNoteAheadOfSchema(snap.noteRev, schema.rev)) {
+        issues.push({ file, typeLabel, kind: "ahead", detail: `note ${new Date(snap.noteRev.updatedAt).toLocaleString()}`, fixable: false });
+      }
+    }
+    return issues;
+  }
+
+  async reconcileFiles(files: TFile[]): Promise<void> {
+    await this.runBulk({
+      title: `Reconciling ${files.length} note(s)`,
+      files,
+      perFile: async (f) => {
+        const snap = await this.buildSnapshot(f);
+        if (!snap.typeValue || !this.getEffectiveSchema(snap.typeValues)) return;
+        await this.rewriteToSchema(f, snap.typeValue, { preserveOverlapValues: true });
+      },
+      onDone: (done, total, canceled, failures) => {
+        const flagged = this.countFlaggedFiles(files);
+        new Notice(`TypeSync: Reconciled ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}${flagged ? ` • invalid values in ${flagged} file(s)` : ""}`);
+      },
+    });
+  }
+
+  getTypeNames(): string[] {
+    return Object.keys(this.schemas).sort((a, b) => a.localeCompare(b));
+  }
+
+  getSchemaCopy(typeValue: string): TypeSchema | null {
+    const schema = this.schemas[typeValue];
+    return schema ? (JSON.parse(JSON.stringify(schema)) as TypeSchema) : null;
+  }
+
+  async applySchemaEdit(typeValue: string, drafts: SchemaKeyDraft[], parent: TypeName | null = null): Promise<void> {
+    const schema = this.schemas[typeValue];
+    if (!schema) return;
+    if (parent && (!this.schemas[parent] || this.resolveTypeChain(parent).includes(typeValue))) {
+      new Notice(`TypeSync: Type "${typeValue}" can't extend "${parent}".`);
+      return;
+    }
+
+    const prevKeys = [...schema.keysOrdered];
+    const nextKeys = drafts.map((d) => d.key);
+    if (!nextKeys.includes(TYPE_KEY)) nextKeys.unshift(TYPE_KEY);
+
+    const properties: Record<string, PropertyDefinition> = {};
+    for (const d of drafts) {
+      if (d.key !== TYPE_KEY && Object.keys(d.def).length > 0) properties[d.key] = { ...d.def };
+    }
+
+    const renames: KeyRename[] = drafts
+      .filter((d) => d.from !== null && d.from !== d.key && prevKeys.includes(d.from))
+      .map((d) => ({ from: d.from!, to: d.key }));
+    const added = nextKeys.filter((k) => !prevKeys.includes(k));
+    const removed = prevKeys.filter((k) => !nextKeys.includes(k));
+    const prevCommon = prevKeys.filter((k) => nextKeys.includes(k));
+    const nextCommon = nextKeys.filter((k) => prevKeys.includes(k));
+    const orderChanged = !prevCommon.every((k, i) => nextCommon[i] === k);
+    const propertiesChanged = !this.valuesEqual(schema.properties ?? {}, properties);
+    const parentChanged = (schema.extends ?? null) !== parent;
+
+    if (added.length === 0 && removed.length === 0 && !orderChanged && !propertiesChanged && !parentChanged) {
+      new Notice(`TypeSync: no changes to Type "${typeValue}".`);
+      return;
+    }
+
+    const schemasBefore = this.cloneSchemas();
+    schema.keysOrdered = nextKeys;
+    schema.properties = properties;
+    if (parent) schema.extends = parent;
+    else delete schema.extends;
+    this.updateSchemaRevision(schema, { added, removed, orderChanged });
+    this.recordMigration(schema, renames.map((r): ValueTransform => ({ kind: "rename", key: r.from, into: [r.to] })));
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+
+    await this.runBulk({
+      title: `Updating Type "${typeValue}"`,
+      files: this.getFilesByType(typeValue),
+      schemasBefore,
+      perFile: async (f) => {
+        await this.rewriteToSchema(f, typeValue, { preserveOverlapValues: true, renames });
+      },
+      onDone: (done, total, canceled, failures) => {
+        new Notice(`TypeSync: Updated ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
+      },
+    });
+  }
+
+  async createType(typeValue: string): Promise<boolean> {
+    if (this.schemas[typeValue]) {
+      new Notice(`TypeSync: Type "${typeValue}" already exists.`);
+      return false;
+    }
+    const rev = this.createSchemaRevision();
+    this.schemas[typeValue] = {
+      keysOrdered: [TYPE_KEY],
+      rev,
+      lastChangeSummary: this.buildChangeSummary([], [], false, rev),
+    };
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+    return true;
+  }
+
+  async renameType(fromType: string, toType: string): Promise<void> {
+    if (fromType === toType) return;
+    if (this.schemas[toType]) {
+      new Notice(`TypeSync: Type "${toType}" already exists.`);
+      return;
+    }
+
+    const schemasBefore = this.cloneSchemas();
+    const schema = this.schemas[fromType];
+    this.removeSchema(fromType);
+    if (schema) {
+      // a new revision, so a tombstone left by an earlier Type of that name doesn't cover it
+      this.updateSchemaRevision(schema, { added: [], removed: [], orderChanged: false });
+      this.schemas[toType] = schema;
+    }
+    for (const child of Object.values(this.schemas)) {
+      if (child.extends === fromType) child.extends = toType;
+    }
+    this.remapTypeFolders(fromType, toType);
+    const schemaNote = this.getSchemaNote(fromType);
+    if (schemaNote) await this.app.fileManager.renameFile(schemaNote, this.schemaNotePath(toType));
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+
+    await this.runBulk({
+      title: `Renaming Type "${fromType}" → "${toType}"`,
+      files: this.getFilesOfExactType(fromType),
+      schemasBefore,
+      perFile: async (f) => {
+        await this.replaceTypeValue(f, fromType, toType);
+        await this.rewriteToSchema(f, toType, { preserveOverlapValues: true });
+      },
+      onDone: () => {
+        new Notice(`TypeSync: renamed "${fromType}" → "${toType}".`);
+      },
+    });
+  }
+
+  private promptMergeTypes(fromType: TypeName, intoType: TypeName): void {
+    const fromKeys = this.getResolvedSchema(fromType).keysOrdered.filter((k) => k !== TYPE_KEY);
+    const intoKeys = this.getResolvedSchema(intoType).keysOrdered.filter((k) => k !== TYPE_KEY);
+    const fromOnly = fromKeys.filter((k) => !intoKeys.includes(k));
+    // only the target's own keys can receive values; inherited ones belong to its parent
+    const intoOnly = this.schemas[intoType]!.keysOrdered.filter((k) => k !== TYPE_KEY && !fromKeys.includes(k));
+    new MergeTypesModal(this.app, fromType, intoType, fromOnly, intoOnly, (mapping) => {
+      this.mergeTypes(fromType, intoType, mapping).catch((e) => console.error("TypeSync merge types error", e));
+    }).open();
+  }
+
+  // Folds one Type into another: the target's schema gains the merged Type's keys (or maps them
+  // onto its own), every note of the merged Type is retyped and rewritten, and its schema is removed.
+  async mergeTypes(fromType: TypeName, intoType: TypeName, mapping: Record<string, string>): Promise<void> {
+    const from = this.schemas[fromType];
+    const into = this.schemas[intoType];
+    if (!from || !into || fromType === intoType) return;
+    if (this.resolveTypeChain(intoType).includes(fromType)) {
+      new Notice(`TypeSync: "${intoType}" inherits from "${fromType}" and can't absorb it.`);
+      return;
+    }
+
+    // collected before the schema goes away, descendants included; notes outside the paths
+    // "intoType" covers only get the new Type, so none keeps a Type without a schema
+    const files = this.getFilesByType(fromType);
+    const outside = files.filter(
+      (f) => (this.snapshots.get(f.path)?.typeValues ?? []).includes(fromType) && !this.isPathInTypeScope(f.path, intoType)
+    );
+    if (outside.length > 0) {
+      const ok = await this.promptYesNo(
+        `${outside.length} note(s) of "${fromType}" are outside the paths synced for "${intoType}" ` +
+          `(${outside.slice(0, 3).map((f) => f.path).join(", ")}${outside.length > 3 ? ", …" : ""}). ` +
+          `They get Type "${intoType}" as well, but their properties are left alone and TypeSync ignores them until they are moved into those paths. Merge?`,
+        "Merge",
+        "Cancel"
+      );
+      if (!ok) return;
+    }
+    const schemasBefore = this.cloneSchemas();
+    const fromProperties = this.getResolvedSchema(fromType).properties ?? {};
+
+    const renames: KeyRename[] = [];
+    const added: string[] = [];
+    for (const [key, target] of Object.entries(mapping)) {
+      if (target) {
+        renames.push({ from: key, to: target, onConflict: "merge" });
+        continue;
+      }
+      into.keysOrdered.push(key);
+      added.push(key);
+      const def = fromProperties[key];
+      if (def) into.properties = { ...(into.properties ?? {}), [key]: { ...def } };
+    }
+    this.updateSchemaRevision(into, { added, removed: [], orderChanged: false });
+
+    this.removeSchema(fromType);
+    for (const child of Object.values(this.schemas)) {
+      if (child.extends === fromType) child.extends = intoType;
+    }
+    this.remapTypeFolders(fromType, intoType);
+    const schemaNote = this.getSchemaNote(fromType);
+    if (schemaNote) await this.app.vault.trash(schemaNote, true);
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+
+    await this.runBulk({
+      title: `Merging Type "${fromType}" into "${intoType}"`,
+      files,
+      schemasBefore,
+      perFile: async (f) => {
+        const snap = await this.buildSnapshot(f);
+        if (snap.typeValues.includes(fromType)) await this.replaceTypeValue(f, fromType, intoType);
+        if (outside.includes(f)) return;
+        await this.rewriteToSchema(f, intoType, { preserveOverlapValues: true, renames });
+      },
+      onDone: (done, total, canceled, failures) => {
+        new Notice(`TypeSync: Merged "${fromType}" into "${intoType}" • updated ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
+      },
+    });
+  }
+
+  // Folder rules follow a renamed or merged Type; rules for a deleted Type are dropped.
+  private remapTypeFolders(fromType: TypeName, toType: TypeName | null): void {
+    for (const [folder, t] of Object.entries(this.settings.typeFolders)) {
+      if (t !== fromType) continue;
+      if (toType) this.settings.typeFolders[folder] = toType;
+      else delete this.settings.typeFolders[folder];
+    }
+  }
+
+  async deleteType(typeValue: string): Promise<void> {
+    if (!this.schemas[typeValue]) return;
+    const children = Object.keys(this.schemas).filter((t) => this.schemas[t]!.extends === typeValue);
+    const ok = await this.promptYesNo(
+      `Delete the schema for Type "${typeValue}"? Notes keep their properties and are no longer synced until the schema is recreated.` +
+        (children.length > 0 ? ` ${children.join(", ")} will no longer inherit from it.` : ""),
+      "Delete schema",
+      "Cancel"
+    );
+    if (!ok) return;
+
+    // keep the keys each child used to inherit so its notes aren't stripped; resolved while the
+    // parent still exists. Children move up to the grandparent, which keeps its own keys.
+    const grandparent = this.schemas[typeValue]!.extends ?? null;
+    const grandparentKeys = new Set(grandparent ? this.getResolvedSchema(grandparent).keysOrdered.filter((k) => k !== TYPE_KEY) : []);
+    const resolved = new Map(children.map((t) => [t, this.getResolvedSchema(t)]));
+    this.removeSchema(typeValue);
+    this.remapTypeFolders(typeValue, null);
+    const schemaNote = this.getSchemaNote(typeValue);
+    if (schemaNote) await this.app.vault.trash(schemaNote, true);
+    for (const t of children) {
+      const child = this.schemas[t]!;
+      const { keysOrdered, properties } = resolved.get(t)!;
+      const inherited = keysOrdered.filter((k) => !grandparentKeys.has(k));
+      const added = inherited.filter((k) => !child.keysOrdered.includes(k));
+      if (grandparent) child.extends = grandparent;
+      else delete child.extends;
+      child.keysOrdered = inherited;
+      if (properties && Object.keys(properties).length > 0) child.properties = { ...properties };
+      this.updateSchemaRevision(child, { added, removed: [], orderChanged: false });
+    }
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+    new Notice(`TypeSync: deleted schema "${typeValue}".`);
+  }
+
+  // Restoring is an ordinary schema edit, so it gets a new revision and propagates to notes.
+  async restoreSchemaRevision(typeValue: TypeName, entry: SchemaHistoryEntry): Promise<void> {
+    if (!this.schemas[typeValue]) return;
+    const ok = await this.promptYesNo(
+      `Restore Type "${typeValue}" to its schema from ${new Date(entry.updatedAt).toLocaleString()} and update its notes?`,
+      "Restore",
+      "Cancel"
+    );
+    if (!ok) return;
+
+    const drafts: SchemaKeyDraft[] = entry.keysOrdered.map((k) => ({
+      key: k,
+      from: k,
+      def: { ...(entry.properties?.[k] ?? {}) },
+    }));
+    const parent = entry.extends && this.schemas[entry.extends] ? entry.extends : null;
+    await this.applySchemaEdit(typeValue, drafts, parent);
+  }
 
-    await this.reportSchemaChangesFromLastSeen();
+  async exportSchemas(typeValues: TypeName[], path: string): Promise<void> {
+    let target = normalizePath(path);
+    if (!/\.(json|ya?ml)$/i.test(target)) target += ".json";
+
+    // parents travel with their children so "extends" still resolves on import
+    const schemas: Record<TypeName, TypeSchema> = {};
+    for (const t of this.expandTypeChains(typeValues)) {
+      const schema = this.getSchemaCopy(t);
+      if (!schema) continue;
+      delete schema.lastChangeSummary;
+      delete schema.history;
+      schemas[t] = schema;
+    }
+    const pack: SchemaPack = { typesync: SCHEMA_PACK_VERSION, exportedAt: new Date().toISOString(), schemas };
+    const content = /\.ya?ml$/i.test(target) ? stringifyYaml(pack) : JSON.stringify(pack, null, 2);
+
+    const existing = this.app.vault.getAbstractFileByPath(target);
+    if (existing instanceof TFile) {
+      const ok = await this.promptYesNo(`"${target}" already exists. Overwrite it?`, "Overwrite", "Cancel");
+      if (!ok) return;
+      await this.app.vault.modify(existing, content);
+    } else {
+      await this.app.vault.create(target, content);
+    }
+    new Notice(`TypeSync: exported ${Object.keys(schemas).length} schema(s) to "${target}".`);
   }
 
-  async savePluginData(): Promise<void> {
-    this.ignoreNextSchemaReload = true;
-    await this.saveData({
-      settings: this.settings,
-      schemas: this.schemas,
+  async importSchemas(file: TFile): Promise<void> {
+    const raw = await this.app.vault.read(file);
+    let parsed: any;
+    try {
+      parsed = file.extension === "json" ? JSON.parse(raw) : parseYaml(raw);
+    } catch (e) {
+      console.error("TypeSync import parse error", file.path, e);
+      new Notice(`TypeSync: "${file.path}" is not valid ${file.extension === "json" ? "JSON" : "YAML"}.`);
+      return;
+    }
+    // only packs written by exportSchemas are accepted
+    const version = parsed?.typesync;
+    if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+      new Notice(`TypeSync: "${file.path}" is not a TypeSync schema pack.`);
+      return;
+    }
+    if (version > SCHEMA_PACK_VERSION) {
+      new Notice(`TypeSync: "${file.path}" was exported by a newer version of TypeSync.`);
+      return;
+    }
+    const incoming = parsed.schemas;
+    if (
+      !incoming ||
+      typeof incoming !== "object" ||
+      Array.isArray(incoming) ||
+      Object.values(incoming).some((s: any) => !s || typeof s !== "object" || !Array.isArray(s.keysOrdered))
+    ) {
+      new Notice(`TypeSync: "${file.path}" contains no valid schemas.`);
+      return;
+    }
+    const imported = incoming as Record<TypeName, TypeSchema>;
+    this.normalizeSchemas(imported);
+
+    const changes = this.computeSchemaChangeNotices(this.schemas, imported).filter((c) => {
+      const cur = this.schemas[c.typeValue];
+      const next = imported[c.typeValue]!;
+      return (
+        !cur ||
+        c.added.length > 0 ||
+        c.removed.length > 0 ||
+        c.orderChanged ||
+        !this.valuesEqual(cur.properties ?? {}, next.properties ?? {}) ||
+        (cur.extends ?? null) !== (next.extends ?? null)
+      );
+    });
+
+    this.schemaLocked = true;
+    let selected: string[];
+    try {
+      selected = await new Promise<string[]>((resolve) => {
+        new SchemaImportModal(this.app, `"${file.path}"`, changes, resolve).open();
+      });
+    } finally {
+      this.schemaLocked = false;
+    }
+    if (selected.length === 0) return;
+
+    const schemasBefore = this.cloneSchemas();
+    for (const t of selected) {
+      const next = imported[t]!;
+      const cur = this.schemas[t];
+      const prevKeys = cur?.keysOrdered ?? [];
+      const schema: TypeSchema = { keysOrdered: [...next.keysOrdered], rev: next.rev, history: cur?.history ?? [] };
+      if (next.properties) schema.properties = next.properties;
+      if (next.extends) schema.extends = next.extends;
+      // paths and new-note options describe this vault's layout, so an existing Type keeps its
+      // own; migrations stay local too, since only local notes can still be behind them
+      const { include, exclude, newNoteFolder, newNoteName } = cur ?? next;
+      Object.assign(schema, JSON.parse(JSON.stringify({ include, exclude, newNoteFolder, newNoteName })));
+      if (cur?.migrations) schema.migrations = cur.migrations;
+      // a fresh local revision, so notes of this Type catch up to the imported schema
+      this.updateSchemaRevision(schema, {
+        added: next.keysOrdered.filter((k) => !prevKeys.includes(k)),
+        removed: prevKeys.filter((k) => !next.keysOrdered.includes(k)),
+        orderChanged: !!changes.find((c) => c.typeValue === t)?.orderChanged,
+      });
+      this.schemas[t] = schema;
+    }
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+
+    await this.runBulk({
+      title: `Importing ${selected.length} schema(s)`,
+      files: this.getFilesByTypes(selected),
+      schemasBefore,
+      perFile: async (f) => {
+        await this.rewriteToSchema(f, this.pickMemberType(f, selected), { preserveOverlapValues: true });
+      },
+      onDone: (done, total, canceled, failures) => {
+        new Notice(`TypeSync: Imported ${selected.join(", ")} • updated ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
+      },
     });
   }
 
+  private refreshSchemaViews(): void {
+    for (const leaf of this.app.workspace.getLeavesOfType(SCHEMA_EDITOR_VIEW_TYPE)) {
+      if (leaf.view instanceof SchemaEditorView) leaf.view.onSchemasChanged();
+    }
+  }
+
 
   async saveSettings(): Promise<void> {
     await this.savePluginData();
   }
 
   private async seedSnapshots(): Promise<void> {
-    const files = this.app.vault.getMarkdownFiles();
+    const files = this.getSyncedFiles();
+    const paths = new Set(files.map((f) => f.path));
+    for (const path of [...this.snapshots.keys()]) {
+      if (!paths.has(path)) this.snapshots.delete(path);
+    }
     for (const f of files) {
       try {
         const snap = await this.buildSnapshot(f);
         this.snapshots.set(f.path, snap);
+        this.validateNote(f.path, snap);
       } catch {
         // ignore
       }
@@ -632,52 +3790,69 @@ export default class TypeSyncPlugin extends Plugin {
 
     // update snapshot early to avoid repeated prompts
     this.snapshots.set(file.path, next);
+    const prevIssues = this.validationIssues.get(file.path) ?? [];
+    const issues = this.validateNote(file.path, next);
+    // the note being typed in is checked once it leaves the editor, not at every pause
+    if (this.settings.warnOnInvalidSave && !this.valuesEqual(prevIssues, issues)) {
+      if (this.isInActiveEditor(file)) this.deferredNotes.add(file.path);
+      else this.warnInvalidNote(file, issues);
+    }
+
+    // templates follow their schema but never drive it
+    if (this.isTemplatePath(file.path)) {
+      const schema = this.getEffectiveSchema(next.typeValues);
+      const known = next.typeValues.length > 0 && next.typeValues.every((t) => !!this.schemas[t]);
+      if (next.typeValue && known && schema && this.isSchemaAheadOfNote(schema.rev, next.noteRev)) {
+        await this.rewriteToSchema(file, next.typeValue, { preserveOverlapValues: true });
+      }
+      return;
+    }
 
     // if Type removed: silently stop syncing this note
     if (prev?.typeValue && !next.typeValue) {
       return;
     }
 
-    const prevType = prev?.typeValue ?? null;
-    const nextType = next.typeValue ?? null;
+    const prevTypes = prev?.typeValues ?? [];
+    const nextTypes = next.typeValues;
     // If the previous snapshot was missing Type but still had TypeSync revision markers,
     // assume a transient frontmatter rewrite and treat it as the same type.
-    const treatPrevTypeAsNext = !prevType && !!nextType && !!prev?.noteRev;
+    const treatPrevTypeAsNext = prevTypes.length === 0 && nextTypes.length > 0 && !!prev?.noteRev;
 
     // type assignment/change logic
-    if (!treatPrevTypeAsNext && prevType !== nextType) {
+    if (!treatPrevTypeAsNext && !this.valuesEqual(prevTypes, nextTypes)) {
       await this.handleTypeValueChange(file, prev ?? null, next);
       return;
     }
 
     // if untyped: do nothing
-    if (!nextType) return;
+    if (nextTypes.length === 0) return;
 
-    const typeValue = nextType;
+    // multi-typed notes: the first listed Type receives added keys
+    const typeValue = nextTypes[0]!;
+    const typeLabel = nextTypes.join(" + ");
+    // every schema that contributes keys to this note, parents included
+    const chainTypes = this.expandTypeChains(nextTypes);
 
-    // ensure schema exists
-    if (!this.schemas[typeValue]) {
+    // ensure schemas exist
+    const missingTypes = nextTypes.filter((t) => !this.schemas[t]);
+    if (missingTypes.length > 0) {
       if (next.noteRev) {
-        this.pendingTypes.add(typeValue);
+        missingTypes.forEach((t) => this.pendingTypes.add(t));
+        this.updatePendingStatus();
         return;
       }
       // create schema from current file properties/order (includes Type)
-      {
-        const rev = this.createSchemaRevision();
-        this.schemas[typeValue] = {
-          keysOrdered: [...next.keysOrdered],
-          rev,
-          lastChangeSummary: this.buildChangeSummary([...next.keysSet], [], false, rev),
-        };
-      }
+      this.createSchemasFromNote(next, missingTypes);
       await this.savePluginData();
       await this.updateLocalSchemaCache();
       return;
     }
 
-    const schema = this.schemas[typeValue];
+    const schema = this.getEffectiveSchema(nextTypes)!;
     if (this.isNoteAheadOfSchema(next.noteRev, schema.rev)) {
-      this.pendingTypes.add(typeValue);
+      nextTypes.forEach((t) => this.pendingTypes.add(t));
+      this.updatePendingStatus();
       return;
     }
     if (this.isSchemaAheadOfNote(schema.rev, next.noteRev)) {
@@ -685,6 +3860,10 @@ export default class TypeSyncPlugin extends Plugin {
       return;
     }
     const diff = this.computeDiff(prev ?? next, next);
+    // computed keys belong to TypeSync: adding or deleting one is repaired, never a schema change
+    const computedKeys = this.computedKeysOf(schema);
+    diff.added = diff.added.filter((k) => !computedKeys.has(k));
+    diff.removed = diff.removed.filter((k) => !computedKeys.has(k));
 
     // order-only change: silently update schema order and propagate, if enabled
     if (this.settings.syncOrder && diff.added.length === 0 && diff.removed.length === 0 && diff.orderChanged) {
@@ -702,16 +3881,23 @@ export default class TypeSyncPlugin extends Plugin {
         return;
       }
 
-      schema.keysOrdered = [...next.keysOrdered];
-      this.updateSchemaRevision(schema, { added: [], removed: [], orderChanged: true });
+      const schemasBefore = this.cloneSchemas();
+      for (const t of chainTypes) {
+        const member = this.schemas[t]!;
+        const reordered = next.keysOrdered.filter((k) => member.keysOrdered.includes(k));
+        if (this.valuesEqual(reordered, member.keysOrdered)) continue;
+        member.keysOrdered = reordered;
+        this.updateSchemaRevision(member, { added: [], removed: [], orderChanged: true });
+      }
       await this.savePluginData();
       await this.updateLocalSchemaCache();
 
       await this.runBulk({
-        title: `Syncing order for Type "${typeValue}"`,
-        files: this.getFilesByType(typeValue).filter((f) => f.path !== file.path),
+        title: `Syncing order for Type "${typeLabel}"`,
+        files: this.getFilesByTypes(chainTypes).filter((f) => f.path !== file.path),
+        schemasBefore,
         perFile: async (f) => {
-          await this.rewriteToSchema(f, typeValue, { preserveOverlapValues: true });
+          await this.rewriteToSchema(f, this.pickMemberType(f, chainTypes), { preserveOverlapValues: true });
         },
       });
       return;
@@ -727,48 +3913,82 @@ export default class TypeSyncPlugin extends Plugin {
         return;
       }
 
+      // Inherited keys belong to the parent and all its other descendants, so a child note
+      // can't remove them; they are put back and the parent has to be edited instead.
+      const parentTypes = chainTypes.filter((t) => !nextTypes.includes(t));
+      const inheritedKeys = this.keysOwnedBy(parentTypes);
+      const inheritedRemoved = diff.removed.filter((k) => inheritedKeys.has(k));
+      if (inheritedRemoved.length > 0) {
+        new Notice(
+          `TypeSync: ${inheritedRemoved.join(", ")} is inherited from "${parentTypes.join(", ")}". Edit the parent Type to remove it.`
+        );
+        diff.removed = diff.removed.filter((k) => !inheritedKeys.has(k));
+        if (diff.added.length === 0 && diff.removed.length === 0) {
+          await this.rewriteToSchema(file, typeValue, { preserveOverlapValues: true });
+          return;
+        }
+      }
+
       // Only prompt if the file is typed and schema exists
-      const decision = await this.promptSchemaChange(typeValue, diff.added, diff.removed);
+      const decision = await this.promptSchemaChange(typeLabel, diff.added, diff.removed);
       if (decision.kind === "apply") {
+        const schemasBefore = this.cloneSchemas();
+        const primary = this.schemas[typeValue]!;
+        // keys owned by the other Types of a multi-typed note, or inherited from a parent, stay there
+        const otherKeys = this.keysOwnedBy([...nextTypes.slice(1), ...this.resolveTypeChain(typeValue).slice(0, -1)]);
         // update schema:
         // - key set becomes next keysSet (must include Type)
         // - if order sync enabled, order becomes next.keysOrdered
         // - if order sync disabled, preserve existing schema order and append new keys at end, remove deleted keys
-        const nextKeysSet = new Set(next.keysSet);
+        const nextKeysSet = new Set([...next.keysSet].filter((k) => !otherKeys.has(k)));
         nextKeysSet.add(TYPE_KEY);
+        primary.keysOrdered.filter((k) => computedKeys.has(k)).forEach((k) => nextKeysSet.add(k));
 
         if (this.settings.syncOrder) {
           // schema order becomes next order, filtered to keysSet (safety)
           const filtered = next.keysOrdered.filter((k) => nextKeysSet.has(k));
           // ensure all keys are included (if parsing missed something)
           const missing = [...nextKeysSet].filter((k) => !filtered.includes(k));
-          schema.keysOrdered = [...filtered, ...missing];
+          primary.keysOrdered = [...filtered, ...missing];
         } else {
-          const cur = schema.keysOrdered.filter((k) => nextKeysSet.has(k));
+          const cur = primary.keysOrdered.filter((k) => nextKeysSet.has(k));
           const missing = [...nextKeysSet].filter((k) => !cur.includes(k));
-          schema.keysOrdered = [...cur, ...missing];
+          primary.keysOrdered = [...cur, ...missing];
         }
 
-        this.updateSchemaRevision(schema, {
+        if (diff.removed.length === 1 && diff.added.length === 1) {
+          this.movePropertyDefinition(primary, diff.removed[0]!, diff.added[0]!);
+        }
+        this.updateSchemaRevision(primary, {
           added: diff.added,
           removed: diff.removed,
           orderChanged: diff.orderChanged,
         });
+
+        // the note's other listed Types (named in the prompt) lose the keys they own
+        for (const t of nextTypes.filter((c) => c !== typeValue)) {
+          const member = this.schemas[t]!;
+          const kept = member.keysOrdered.filter((k) => !diff.removed.includes(k));
+          if (kept.length === member.keysOrdered.length) continue;
+          member.keysOrdered = kept;
+          this.updateSchemaRevision(member, { added: [], removed: diff.removed, orderChanged: false });
+        }
         await this.savePluginData();
         await this.updateLocalSchemaCache();
 
         // propagate across all files of that type
         await this.runBulk({
-          title: `Updating Type "${typeValue}"`,
-          files: this.getFilesByType(typeValue),
+          title: `Updating Type "${typeLabel}"`,
+          files: this.getFilesByTypes(chainTypes),
+          schemasBefore,
           perFile: async (f) => {
-            await this.rewriteToSchema(f, typeValue, {
+            await this.rewriteToSchema(f, this.pickMemberType(f, chainTypes), {
               preserveOverlapValues: true,
               // special: if removed+added looks like rename, preserve values from removed->added
-              renameHint: (() => {
+              renames: (() => {
                 const from = diff.removed.length === 1 ? diff.removed[0] : undefined;
                 const to = diff.added.length === 1 ? diff.added[0] : undefined;
-                return from && to ? { from, to } : undefined;
+                return from && to ? [{ from, to, guessed: true }] : [];
               })(),
             });
           },
@@ -781,7 +4001,179 @@ export default class TypeSyncPlugin extends Plugin {
           await this.rewriteToSchema(file, typeValue, { preserveOverlapValues: true });
         }
       }
+      return;
+    }
+
+    // no structural change: refresh computed values, then validate values against property types
+    if (await this.refreshComputedValues(file, typeValue, next, schema)) return;
+    await this.checkPropertyValues(file, typeValue, next);
+  }
+
+  private computedKeysOf(schema: TypeSchema): Set<string> {
+    const keys = new Set<string>();
+    for (const [key, def] of Object.entries(schema.properties ?? {})) {
+      if (def.computed && schema.keysOrdered.includes(key)) keys.add(key);
+    }
+    return keys;
+  }
+
+  // Returns true when the note had to be rewritten. The note being typed in is left alone
+  // until it loses focus, so a whole-file write can't reload the editor mid-keystroke.
+  private async refreshComputedValues(file: TFile, typeValue: TypeName, snap: Snapshot, schema: TypeSchema): Promise<boolean> {
+    const computedKeys = this.computedKeysOf(schema);
+    if (computedKeys.size === 0) return false;
+    if (this.isInActiveEditor(file)) {
+      this.deferredNotes.add(file.path);
+      return false;
+    }
+
+    // a deleted computed key goes back in its schema position
+    if ([...computedKeys].some((k) => !snap.keysSet.has(k))) {
+      await this.rewriteToSchema(file, typeValue, { preserveOverlapValues: true });
+      return true;
+    }
+
+    const values: Record<string, any> = {};
+    for (const key of computedKeys) {
+      const value = this.computeValue(file, snap, key, schema.properties![key]!);
+      if (!this.valuesEqual(snap.frontmatterObj[key] ?? null, value)) values[key] = value;
+    }
+    if (Object.keys(values).length === 0) return false;
+    await this.setPropertyValues(file, snap, values);
+    return true;
+  }
+
+  private isInActiveEditor(file: TFile): boolean {
+    return this.app.workspace.getActiveViewOfType(MarkdownView)?.file?.path === file.path;
+  }
+
+  // Computed values and coercions outside handleModify: after the note leaves the editor, or
+  // when links to it change.
+  private async refreshDeferred(file: TFile, leftEditor: boolean): Promise<void> {
+    if (this.schemaLocked || !this.isPathSynced(file.path) || this.isTemplatePath(file.path)) return;
+    const snap = await this.buildSnapshot(file);
+    if (!snap.typeValue) return;
+    const schema = this.getEffectiveSchema(snap.typeValues);
+    if (!schema || this.isSchemaAheadOfNote(schema.rev, snap.noteRev) || this.isNoteAheadOfSchema(snap.noteRev, schema.rev)) return;
+    if (await this.refreshComputedValues(file, snap.typeValue, snap, schema)) return;
+    await this.checkPropertyValues(file, snap.typeValue, snap, leftEditor);
+  }
+
+  private async flushDeferredNotes(): Promise<void> {
+    const activePath = this.app.workspace.getActiveViewOfType(MarkdownView)?.file?.path;
+    for (const path of [...this.deferredNotes]) {
+      if (path === activePath) continue;
+      this.deferredNotes.delete(path);
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      await this.refreshDeferred(file, true);
+      if (this.settings.warnOnInvalidSave) this.warnInvalidNote(file, this.validationIssues.get(path) ?? []);
+    }
+  }
+
+  private warnInvalidNote(file: TFile, issues: PropertyIssue[]): void {
+    const keys = issues.map((i) => i.key).filter((k, i, all) => all.indexOf(k) === i).sort().join("\n");
+    if (!keys) {
+      this.warnedIssueKeys.delete(file.path);
+      return;
+    }
+    if (this.warnedIssueKeys.get(file.path) === keys) return;
+    this.warnedIssueKeys.set(file.path, keys);
+    new Notice(`TypeSync: "${file.basename}" — ${this.formatIssues(issues)}`);
+  }
+
+  // Notes gaining or losing a link from this one get their backlinks refreshed. The first
+  // resolve of a note (at startup) only records its links.
+  private trackBacklinkChanges(file: TFile): void {
+    const next = Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {});
+    const prev = this.outgoingLinks.get(file.path);
+    this.outgoingLinks.set(file.path, next);
+    if (!prev) return;
+
+    const changed = [...next.filter((t) => !prev.includes(t)), ...prev.filter((t) => !next.includes(t))];
+    if (changed.length === 0) return;
+    changed.forEach((t) => this.backlinkTargets.add(t));
+
+    if (this.backlinkTimer) window.clearTimeout(this.backlinkTimer);
+    this.backlinkTimer = window.setTimeout(() => {
+      this.backlinkTimer = null;
+      const targets = [...this.backlinkTargets];
+      this.backlinkTargets.clear();
+      (async () => {
+        for (const path of targets) {
+          const target = this.app.vault.getAbstractFileByPath(path);
+          if (target instanceof TFile && target.extension === "md") await this.refreshDeferred(target, false);
+        }
+      })().catch((e) => console.error("TypeSync backlinks error", e));
+    }, DEBOUNCE_MS);
+  }
+
+  private computeValue(file: TFile, snap: Snapshot, key: string, def: PropertyDefinition): any {
+    switch (def.computed) {
+      case "modified": {
+        // our own writes move mtime too; those keep the value from the last user edit
+        const ownWrite = this.ownWriteMtimes.get(file.path);
+        const current = snap.frontmatterObj[key];
+        if (ownWrite !== undefined && file.stat.mtime <= ownWrite && current) return current;
+        return moment(file.stat.mtime).format("YYYY-MM-DDTHH:mm");
+      }
+      case "word_count": {
+        const body = this.extractFrontmatter(snap.rawContent).bodyText;
+        return (body.match(/\S+/g) ?? []).length;
+      }
+      case "backlinks": {
+        const links: string[] = [];
+        for (const [source, targets] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+          if (source === file.path || !targets[file.path]) continue;
+          const from = this.app.vault.getAbstractFileByPath(source);
+          if (from instanceof TFile) links.push(`[[${this.app.metadataCache.fileToLinktext(from, file.path, true)}]]`);
+        }
+        return links.sort((a, b) => a.localeCompare(b));
+      }
+      case "age": {
+        const born = snap.frontmatterObj[def.computedFrom || DEFAULT_AGE_SOURCE];
+        const date = typeof born === "string" || born instanceof Date ? moment(born) : null;
+        return date?.isValid() ? moment().diff(date, "years") : null;
+      }
+    }
+    return null;
+  }
+
+  private expandTypeChains(typeValues: TypeName[]): TypeName[] {
+    const out: TypeName[] = [];
+    for (const t of typeValues) {
+      for (const c of this.resolveTypeChain(t)) {
+        if (!out.includes(c)) out.push(c);
+      }
+    }
+    return out;
+  }
+
+  private keysOwnedBy(typeValues: TypeName[]): Set<string> {
+    const keys = new Set<string>();
+    for (const t of this.expandTypeChains(typeValues)) {
+      for (const k of this.schemas[t]?.keysOrdered ?? []) {
+        if (k !== TYPE_KEY) keys.add(k);
+      }
     }
+    return keys;
+  }
+
+  // Creates schemas for Types that don't have one yet. A single new Type takes the note's keys;
+  // with several Types, keys already covered by an existing Type stay there and the first new
+  // Type takes the rest.
+  private createSchemasFromNote(snap: Snapshot, newTypes: TypeName[]): void {
+    const covered = this.keysOwnedBy(snap.typeValues.filter((t) => !newTypes.includes(t)));
+    newTypes.forEach((t, i) => {
+      const keys = i === 0 ? snap.keysOrdered.filter((k) => !covered.has(k)) : [TYPE_KEY];
+      if (!keys.includes(TYPE_KEY)) keys.unshift(TYPE_KEY);
+      const rev = this.createSchemaRevision();
+      this.schemas[t] = {
+        keysOrdered: keys,
+        rev,
+        lastChangeSummary: this.buildChangeSummary(keys, [], false, rev),
+      };
+    });
   }
 
   private computeDiff(prev: Snapshot, next: Snapshot): Diff {
@@ -822,6 +4214,105 @@ export default class TypeSyncPlugin extends Plugin {
     }
   }
 
+  private async previewReconcile(title: string, targets: { file: TFile; typeValue: string }[]): Promise<void> {
+    const built = await this.buildPreviews(targets, { preserveOverlapValues: true });
+    const decision = await this.promptPreview(title, built);
+    if (decision.kind === "abort" || decision.files.length === 0) return;
+
+    let stale = 0;
+    await this.runBulk({
+      title,
+      files: decision.files,
+      perFile: async (f) => {
+        const plan = built.plans.get(f.path);
+        if (plan && !(await this.applyRewritePlan(f, plan))) stale++;
+      },
+      onDone: (done, total, canceled, failures) => {
+        const flagged = this.countFlaggedFiles(decision.files);
+        new Notice(
+          `TypeSync: Reconciled ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}` +
+          `${stale ? ` • changed since preview, skipped: ${stale}` : ""}${flagged ? ` • invalid values in ${flagged} file(s)` : ""}`
+        );
+      },
+    });
+  }
+
+  // Plans every target once; accepting the preview writes exactly these plans.
+  private async buildPreviews(
+    targets: { file: TFile; typeValue: string }[],
+    opts: RewriteOptions
+  ): Promise<PreviewSet> {
+    const notice = new Notice("TypeSync: building preview…", 0);
+    const built: PreviewSet = { previews: [], plans: new Map(), unchanged: 0, errors: 0 };
+    try {
+      for (const t of targets) {
+        try {
+          const plan = await this.planSchemaRewrite(t.file, t.typeValue, opts);
+          const preview = plan ? this.describeRewritePlan(t.file, t.typeValue, plan) : null;
+          if (!plan || !preview || !this.previewHasChanges(preview)) {
+            built.unchanged++;
+            continue;
+          }
+          built.previews.push(preview);
+          built.plans.set(t.file.path, plan);
+        } catch (e) {
+          console.error("TypeSync preview error", t.file.path, e);
+          built.errors++;
+        }
+      }
+    } finally {
+      notice.hide();
+    }
+    return built;
+  }
+
+  // Writes a previewed plan; false when the note changed after the preview was built.
+  private async applyRewritePlan(file: TFile, plan: RewritePlan): Promise<boolean> {
+    const content = await this.app.vault.read(file);
+    if (hashContent(content) !== hashContent(plan.current.rawContent)) return false;
+
+    this.recordValueIssues(file.path, plan.issues);
+    await this.rewriteFrontmatterByOrder(file, plan.finalOrder, plan.outObj, { forceTypeValue: plan.typeOut });
+    return true;
+  }
+
+  private describeRewritePlan(file: TFile, typeValue: string, plan: RewritePlan): FilePreview {
+    const before = plan.current;
+    const afterKeys = plan.finalOrder.filter((k) => !INTERNAL_KEYS.has(k));
+
+    const renamed = plan.renames.filter((r) => before.keysSet.has(r.from) && afterKeys.includes(r.to) && !afterKeys.includes(r.from));
+    const renamedFrom = new Set(renamed.map((r) => r.from));
+    const renamedTo = new Set(renamed.map((r) => r.to));
+
+    const added = afterKeys.filter((k) => !before.keysSet.has(k) && !renamedTo.has(k));
+    const dropped = before.keysOrdered.filter((k) => !afterKeys.includes(k) && !renamedFrom.has(k));
+
+    const commonBefore = before.keysOrdered.filter((k) => afterKeys.includes(k));
+    const commonAfter = afterKeys.filter((k) => before.keysSet.has(k));
+    const reordered = !commonBefore.every((k, i) => commonAfter[i] === k);
+
+    const changedValues = commonAfter
+      .filter((k) => !renamedTo.has(k) && !this.valuesEqual(before.frontmatterObj[k], plan.outObj[k]))
+      .map((k) => ({ key: k, before: before.frontmatterObj[k], after: plan.outObj[k] }));
+
+    return { file, typeValue, added, dropped, reordered, renamed, changedValues };
+  }
+
+  private previewHasChanges(p: FilePreview): boolean {
+    return p.added.length > 0 || p.dropped.length > 0 || p.reordered || p.renamed.length > 0 || p.changedValues.length > 0;
+  }
+
+  private async promptPreview(title: string, built: PreviewSet, selectable = true): Promise<PreviewDecision> {
+    this.schemaLocked = true;
+    try {
+      return await new Promise<PreviewDecision>((resolve) => {
+        new ReconcilePreviewModal(this.app, title, built.previews, built.unchanged, built.errors, resolve, selectable).open();
+      });
+    } finally {
+      this.schemaLocked = false;
+    }
+  }
+
   private async handleTypeValueChange(file: TFile, prev: Snapshot | null, next: Snapshot): Promise<void> {
     const prevType = prev?.typeValue ?? null;
     const nextType = next.typeValue ?? null;
@@ -829,6 +4320,11 @@ export default class TypeSyncPlugin extends Plugin {
     // Type removed (handled earlier)
     if (!nextType) return;
 
+    if ((prev?.typeValues.length ?? 0) > 1 || next.typeValues.length > 1) {
+      await this.handleMultiTypeChange(file, prev, next);
+      return;
+    }
+
     const nextExists = !!this.schemas[nextType];
 
     // If prevType is null and nextType exists -> ask to align (destructive) or cancel (remove Type)
@@ -940,41 +4436,58 @@ export default class TypeSyncPlugin extends Plugin {
         const fromType = decision.fromType;
         const toType = decision.toType;
 
-        const schema = this.schemas[fromType];
-        if (!schema) {
+        if (!this.schemas[fromType]) {
           // fallback: create schema from current file
-          {
-            const rev = this.createSchemaRevision();
-            this.schemas[toType] = {
-              keysOrdered: [...next.keysOrdered],
-              rev,
-              lastChangeSummary: this.buildChangeSummary([...next.keysSet], [], false, rev),
-            };
-          }
-        } else {
-          this.schemas[toType] = schema;
+          const rev = this.createSchemaRevision();
+          this.schemas[fromType] = {
+            keysOrdered: [...next.keysOrdered],
+            rev,
+            lastChangeSummary: this.buildChangeSummary([...next.keysSet], [], false, rev),
+          };
         }
-        delete this.schemas[fromType];
-        await this.savePluginData();
-        await this.updateLocalSchemaCache();
+        await this.renameType(fromType, toType);
+        return;
+      }
+    }
+  }
 
-        const files = this.getFilesByType(fromType);
+  private async handleMultiTypeChange(file: TFile, prev: Snapshot | null, next: Snapshot): Promise<void> {
+    const nextTypes = next.typeValues;
+    const label = nextTypes.map((t) => `"${t}"`).join(" + ");
+    const missing = nextTypes.filter((t) => !this.schemas[t]);
 
-        await this.runBulk({
-          title: `Renaming Type "${fromType}" → "${toType}"`,
-          files,
-          perFile: async (f) => {
-            await this.setTypeValue(f, toType);
-            await this.rewriteToSchema(f, toType, { preserveOverlapValues: true });
-          },
-          onDone: () => {
-            new Notice(`TypeSync: renamed "${fromType}" → "${toType}".`);
-          },
-        });
+    const revert = async () => {
+      if (prev) await this.rewriteExactFrontmatterFromSnapshot(file, prev);
+      else await this.removeTypeKey(file);
+    };
 
-        return;
-      }
+    if (missing.length > 0) {
+      const ok = await this.promptYesNo(
+        `Type ${missing.map((t) => `"${t}"`).join(", ")} does not exist yet. ` +
+          `Create it from this note's properties and align the note to ${label}?`,
+        "Create + align",
+        "Cancel"
+      );
+      if (!ok) { await revert(); return; }
+
+      this.createSchemasFromNote(next, missing);
+      await this.savePluginData();
+      await this.updateLocalSchemaCache();
+      await this.rewriteToSchema(file, nextTypes[0]!, { preserveOverlapValues: true });
+      return;
     }
+
+    const removalWarning = this.settings.syncPropertyRemovals
+      ? " Warning: This removes properties not in the schemas."
+      : "";
+    const ok = await this.promptYesNo(
+      `Update this file to match Types ${label}?${removalWarning}`,
+      "Align to schemas",
+      "Cancel"
+    );
+    if (!ok) { await revert(); return; }
+
+    await this.rewriteToSchema(file, nextTypes[0]!, { preserveOverlapValues: true });
   }
 
   private async promptYesNo(body: string, yesText = "Yes", noText = "No"): Promise<boolean> {
@@ -1017,14 +4530,112 @@ export default class TypeSyncPlugin extends Plugin {
     }
   }
 
+  // Files whose Types are typeValue or one of its descendants.
   private getFilesByType(typeValue: string): TFile[] {
-    return this.app.vault.getMarkdownFiles().filter((f) => {
-      const snap = this.snapshots.get(f.path);
-      if (snap) return snap.typeValue === typeValue;
-      const cachedType = this.app.metadataCache.getFileCache(f)?.frontmatter?.[TYPE_KEY];
-      if (typeof cachedType !== "string") return false;
-      return cachedType.trim() === typeValue;
-    });
+    return this.getSyncedFiles().filter((f) =>
+      this.getFileTypeValues(f).some((t) => this.resolveTypeChain(t).includes(typeValue))
+    );
+  }
+
+  // Files that list typeValue itself, ignoring descendants (for retyping).
+  private getFilesOfExactType(typeValue: string): TFile[] {
+    return this.getSyncedFiles().filter((f) => this.getFileTypeValues(f).includes(typeValue));
+  }
+
+  private getFileTypeValues(file: TFile): TypeName[] {
+    const snap = this.snapshots.get(file.path);
+    if (snap) return snap.typeValues;
+    const cachedFm = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+    return this.resolveTypeLocation(cachedFm, file.path).typeValues;
+  }
+
+  // Ancestors first, ending with typeValue itself. Missing parents and cycles end the chain.
+  private resolveTypeChain(typeValue: TypeName, schemas: Record<TypeName, TypeSchema> = this.schemas): TypeName[] {
+    const chain: TypeName[] = [typeValue];
+    let parent = schemas[typeValue]?.extends;
+    while (parent && schemas[parent] && !chain.includes(parent)) {
+      chain.unshift(parent);
+      parent = schemas[parent]?.extends;
+    }
+    return chain;
+  }
+
+  getInheritedKeys(
+    typeValue: TypeName,
+    schemas: Record<TypeName, TypeSchema> = this.schemas
+  ): { parent: TypeName; keys: string[] }[] {
+    return this.resolveTypeChain(typeValue, schemas)
+      .slice(0, -1)
+      .map((parent) => ({
+        parent,
+        keys: (schemas[parent]?.keysOrdered ?? []).filter((k) => k !== TYPE_KEY),
+      }));
+  }
+
+  private hasTypeOrDescendant(typeValues: TypeName[], typeValue: TypeName): boolean {
+    return typeValues.some((t) => this.resolveTypeChain(t).includes(typeValue));
+  }
+
+  private getFilesByTypes(typeValues: TypeName[]): TFile[] {
+    const seen = new Set<string>();
+    const files: TFile[] = [];
+    for (const t of typeValues) {
+      for (const f of this.getFilesByType(t)) {
+        if (seen.has(f.path)) continue;
+        seen.add(f.path);
+        files.push(f);
+      }
+    }
+    return files;
+  }
+
+  // The file's own Type that is (or descends from) one of typeValues, for propagating a change.
+  private pickMemberType(file: TFile, typeValues: TypeName[]): TypeName {
+    const own = this.getFileTypeValues(file);
+    return own.find((t) => typeValues.some((v) => this.resolveTypeChain(t).includes(v))) ?? typeValues[0] ?? "";
+  }
+
+  // Schema a note with the given Types is rewritten to: the ordered union of its Types' keys.
+  // Property definitions and order follow the precedence setting.
+  private getEffectiveSchema(typeValues: TypeName[]): TypeSchema | null {
+    const members = typeValues.filter((t) => !!this.schemas[t]);
+    if (members.length === 0) return null;
+    if (members.length === 1) return this.getResolvedSchema(members[0]!);
+
+    const ordered = this.settings.multiTypePrecedence === "last" ? [...members].reverse() : members;
+    return this.mergeSchemas(ordered.map((t) => this.getResolvedSchema(t)));
+  }
+
+  // A Type's schema with its ancestors' keys in front; the Type's own definitions win.
+  private getResolvedSchema(typeValue: TypeName): TypeSchema {
+    const chain = this.resolveTypeChain(typeValue);
+    if (chain.length === 1) return this.schemas[typeValue]!;
+
+    const merged = this.mergeSchemas(chain.map((t) => this.schemas[t]!));
+    const own = this.schemas[typeValue]!;
+    merged.properties = { ...merged.properties };
+    for (const t of chain) Object.assign(merged.properties, this.schemas[t]!.properties ?? {});
+    merged.extends = own.extends;
+    return merged;
+  }
+
+  // Ordered union of keys; earlier schemas win property definitions; newest revision wins.
+  private mergeSchemas(schemas: TypeSchema[]): TypeSchema {
+    const keysOrdered: string[] = [TYPE_KEY];
+    const properties: Record<string, PropertyDefinition> = {};
+    let rev: SchemaRevision | null = null;
+
+    for (const schema of schemas) {
+      for (const k of schema.keysOrdered) {
+        if (!keysOrdered.includes(k)) keysOrdered.push(k);
+      }
+      for (const [k, def] of Object.entries(schema.properties ?? {})) {
+        if (!properties[k]) properties[k] = def;
+      }
+      if (!rev || this.compareRevisions(schema.rev, rev) > 0) rev = schema.rev;
+    }
+
+    return { keysOrdered, rev: rev!, properties };
   }
 
   private async runBulk(opts: BulkRunOptions): Promise<void> {
@@ -1036,6 +4647,17 @@ export default class TypeSyncPlugin extends Plugin {
     this.schemaLocked = true;
     modal.open();
 
+    if (opts.journal !== false) {
+      this.activeJournal = {
+        id: this.generateRevisionId(),
+        title: opts.title,
+        startedAt: Date.now(),
+        files: [],
+        schemasBefore: opts.schemasBefore,
+      };
+      this.activeJournalByPath.clear();
+    }
+
     let failures = 0;
     try {
       const total = opts.files.length;
@@ -1055,15 +4677,174 @@ export default class TypeSyncPlugin extends Plugin {
 
         modal.incrementCompleted();
 
-        // yield to UI every few files
-        if (i % 15 === 0) {
-          await new Promise((r) => window.setTimeout(r, 0));
+        // yield to UI every few files
+        if (i % 15 === 0) {
+          await new Promise((r) => window.setTimeout(r, 0));
+        }
+      }
+    } finally {
+      this.schemaLocked = false;
+      modal.close();
+      await this.finishJournal().catch((e) => console.error("TypeSync journal write error", e));
+      opts.onDone?.(modal.getCompleted(), opts.files.length, modal.getCanceled(), failures);
+    }
+  }
+
+  private recordJournalWrite(path: string, before: string, after: string): void {
+    if (!this.activeJournal) return;
+    const existing = this.activeJournalByPath.get(path);
+    if (existing) {
+      existing.afterHash = hashContent(after);
+      return;
+    }
+    const op = this.activeJournal;
+    if (op.incomplete || (op.size ?? 0) + before.length > MAX_JOURNAL_OPERATION_CHARS) {
+      op.incomplete = true;
+      return;
+    }
+    op.size = (op.size ?? 0) + before.length;
+    const entry: JournalFileEntry = { path, before, afterHash: hashContent(after) };
+    op.files.push(entry);
+    this.activeJournalByPath.set(path, entry);
+  }
+
+  private async finishJournal(): Promise<void> {
+    const op = this.activeJournal;
+    this.activeJournal = null;
+    this.activeJournalByPath.clear();
+    if (!op || op.files.length === 0) return;
+
+    if (op.schemasBefore) op.schemasAfter = this.cloneSchemas();
+
+    if (op.incomplete) {
+      new Notice(`TypeSync: "${op.title}" was too large to journal fully; undo covers the first ${op.files.length} file(s).`);
+    }
+
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.journalDir))) await adapter.mkdir(this.journalDir);
+    await adapter.write(this.journalPath(op), JSON.stringify(op));
+
+    // keep only the most recent operations, within the total size budget (the newest always stays)
+    const listed = await adapter.list(this.journalDir);
+    let total = 0;
+    const files = listed.files.filter((p) => p.endsWith(".json")).sort().reverse();
+    for (const [i, p] of files.entries()) {
+      total += (await adapter.stat(p))?.size ?? 0;
+      if (i > 0 && (i >= MAX_JOURNAL_OPERATIONS || total > MAX_JOURNAL_TOTAL_BYTES)) await adapter.remove(p);
+    }
+  }
+
+  private journalPath(op: JournalOperation): string {
+    return normalizePath(`${this.journalDir}/${op.startedAt}-${op.id}.json`);
+  }
+
+  private async listJournalOperations(): Promise<JournalOperation[]> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.journalDir))) return [];
+
+    const listed = await adapter.list(this.journalDir);
+    const ops: JournalOperation[] = [];
+    for (const p of listed.files.filter((f) => f.endsWith(".json")).sort().reverse()) {
+      try {
+        const op = JSON.parse(await adapter.read(p)) as JournalOperation;
+        if (op && Array.isArray(op.files)) ops.push(op);
+      } catch (e) {
+        console.error("TypeSync journal read error", p, e);
+      }
+    }
+    return ops;
+  }
+
+  private async restoreJournalOperation(op: JournalOperation): Promise<void> {
+    const restorable: { file: TFile; entry: JournalFileEntry }[] = [];
+    const changed: { file: TFile; entry: JournalFileEntry }[] = [];
+    let missing = 0;
+
+    for (const entry of op.files) {
+      const file = this.app.vault.getAbstractFileByPath(entry.path);
+      if (!(file instanceof TFile)) { missing += 1; continue; }
+      const content = await this.app.vault.read(file);
+      if (content === entry.before) continue; // already restored
+      const unchanged = entry.afterHash !== undefined ? hashContent(content) === entry.afterHash : content === entry.after;
+      if (unchanged) restorable.push({ file, entry });
+      else changed.push({ file, entry });
+    }
+
+    if (changed.length > 0) {
+      const overwrite = await this.promptYesNo(
+        `${changed.length} file(s) changed after "${op.title}" ran. Restore them anyway? Their newer edits will be lost.`,
+        "Restore them too",
+        "Skip them"
+      );
+      if (overwrite) restorable.push(...changed);
+    }
+
+    // roll back schemas that still match what the operation left behind; the old content comes
+    // back as a new revision, so revisions only move forward (like restoring from schema history)
+    if (op.schemasBefore && op.schemasAfter) {
+      const types = new Set([...Object.keys(op.schemasBefore), ...Object.keys(op.schemasAfter)]);
+      let schemasRestored = false;
+      for (const t of types) {
+        const after = op.schemasAfter[t];
+        const before = op.schemasBefore[t];
+        const cur = this.schemas[t];
+        if (!this.valuesEqual(cur, after)) continue;
+        schemasRestored = true;
+        if (!before) {
+          this.removeSchema(t);
+          continue;
         }
+        const prevKeys = cur?.keysOrdered ?? [];
+        const restored: TypeSchema = {
+          ...JSON.parse(JSON.stringify(before)),
+          rev: cur?.rev ?? before.rev,
+          lastChangeSummary: cur?.lastChangeSummary,
+          history: cur?.history ?? before.history,
+          migrations: cur?.migrations ?? before.migrations,
+        };
+        this.updateSchemaRevision(restored, {
+          added: restored.keysOrdered.filter((k) => !prevKeys.includes(k)),
+          removed: prevKeys.filter((k) => !restored.keysOrdered.includes(k)),
+          orderChanged: !this.valuesEqual(
+            prevKeys.filter((k) => restored.keysOrdered.includes(k)),
+            restored.keysOrdered.filter((k) => prevKeys.includes(k))
+          ),
+        });
+        this.schemas[t] = restored;
       }
-    } finally {
-      this.schemaLocked = false;
-      modal.close();
-      opts.onDone?.(modal.getCompleted(), opts.files.length, modal.getCanceled(), failures);
+      if (schemasRestored) {
+        await this.savePluginData();
+        await this.updateLocalSchemaCache();
+      }
+    }
+
+    const byPath = new Map(restorable.map((r) => [r.file.path, r.entry]));
+    let completed = false;
+    await this.runBulk({
+      title: `Undoing "${op.title}"`,
+      files: restorable.map((r) => r.file),
+      journal: false,
+      perFile: async (f) => {
+        const entry = byPath.get(f.path);
+        if (!entry) return;
+        this.suppressOnce(f.path);
+        await this.app.vault.modify(f, entry.before);
+        const snap = await this.buildSnapshot(f);
+        this.snapshots.set(f.path, snap);
+        this.validateNote(f.path, snap);
+      },
+      onDone: (done, total, canceled, failures) => {
+        completed = !canceled;
+        new Notice(
+          `TypeSync: restored ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}` +
+          `${changed.length ? ` • changed since: ${changed.length}` : ""}${missing ? ` • missing: ${missing}` : ""}`
+        );
+      },
+    });
+
+    // an undone operation leaves the history; a canceled undo can be retried
+    if (completed) {
+      await this.app.vault.adapter.remove(this.journalPath(op)).catch((e) => console.error("TypeSync journal remove error", e));
     }
   }
 
@@ -1071,23 +4852,34 @@ export default class TypeSyncPlugin extends Plugin {
     const rawContent = await this.app.vault.read(file);
     const { frontmatterText, bodyText, hasFrontmatter } = this.extractFrontmatter(rawContent);
 
-    const fmObj: Record<string, any> = hasFrontmatter ? (parseYaml(frontmatterText) ?? {}) : {};
+    const rawObj: Record<string, any> = hasFrontmatter ? (parseYaml(frontmatterText) ?? {}) : {};
+    const location = this.resolveTypeLocation(rawObj, file.path);
+    const rawKeysSet = new Set(Object.keys(rawObj).filter((k) => !INTERNAL_KEYS.has(k)));
+    const rawKeysOrdered = hasFrontmatter
+      ? this.extractOrderedKeysFromFrontmatterText(frontmatterText, rawKeysSet)
+      : [...rawKeysSet];
+
+    // Work with the type under TYPE_KEY regardless of where the note keeps it;
+    // rewriteFrontmatterByOrder maps it back on write.
+    const fmObj = this.canonicalizeTypeKey(rawObj, location);
     const keysSet = new Set(Object.keys(fmObj).filter((k) => !INTERNAL_KEYS.has(k)));
+    const shadowed = Object.prototype.hasOwnProperty.call(fmObj, SHADOWED_TYPE_KEY);
+    const keysOrdered = rawKeysOrdered
+      .filter((k) => !shadowed || k !== TYPE_KEY)
+      .map((k) => (k === location.key ? TYPE_KEY : k));
 
-    const typeValue = this.extractTypeValue(fmObj);
+    const typeValue = location.typeValue;
     const noteRev = this.extractNoteRevision(fmObj);
 
-    const keysOrdered = hasFrontmatter
-      ? this.extractOrderedKeysFromFrontmatterText(frontmatterText, keysSet)
-      : [...keysSet];
-
-    // if has Type but order parsing missed it, include it
+    // if has Type but order parsing missed it (or it is derived from a tag/folder), include it
     if (keysSet.has(TYPE_KEY) && !keysOrdered.includes(TYPE_KEY)) {
       keysOrdered.unshift(TYPE_KEY);
     }
 
     return {
       typeValue,
+      typeValues: location.typeValues,
+      typeSource: location.source,
       keysSet,
       keysOrdered,
       frontmatterObj: fmObj,
@@ -1097,11 +4889,105 @@ export default class TypeSyncPlugin extends Plugin {
     };
   }
 
-  private extractTypeValue(fmObj: Record<string, any>): string | null {
-    const v = fmObj?.[TYPE_KEY];
-    if (typeof v !== "string") return null;
-    const t = v.trim();
-    return t.length ? t : null;
+  private primaryTypeKey(): string {
+    return this.settings.typeKeys[0] ?? TYPE_KEY;
+  }
+
+  // Type lookup order: configured type keys, then a tag with the type prefix, then folder rules.
+  // Notes outside the sync scope, or outside the scope of any of their Types, count as untyped.
+  private resolveTypeLocation(fmObj: Record<string, any>, path: string): TypeLocation {
+    const untyped: TypeLocation = { typeValue: null, typeValues: [], source: null, key: null };
+    if (this.isSchemaNotePath(path) || !this.isPathSynced(path)) return untyped;
+
+    const location = this.findTypeLocation(fmObj, path);
+    return location.typeValues.every((t) => this.isPathInTypeScope(path, t)) ? location : untyped;
+  }
+
+  private findTypeLocation(fmObj: Record<string, any>, path: string): TypeLocation {
+    for (const key of this.settings.typeKeys) {
+      const typeValues = this.extractTypeValues(fmObj?.[key]);
+      if (typeValues.length > 0) return { typeValue: typeValues[0]!, typeValues, source: "key", key };
+    }
+
+    const prefix = this.settings.typeTagPrefix;
+    if (prefix) {
+      const typeValues = this.readFrontmatterTags(fmObj)
+        .filter((t) => t.startsWith(prefix) && t.length > prefix.length)
+        .map((t) => t.slice(prefix.length))
+        .filter((t, i, all) => all.indexOf(t) === i);
+      if (typeValues.length > 0) return { typeValue: typeValues[0]!, typeValues, source: "tag", key: null };
+    }
+
+    const folderType = this.getFolderType(path);
+    if (folderType) return { typeValue: folderType, typeValues: [folderType], source: "folder", key: null };
+
+    return { typeValue: null, typeValues: [], source: null, key: null };
+  }
+
+  // A Type is a non-empty string or a list of them (multi-typed note).
+  private extractTypeValues(v: unknown): string[] {
+    const list = Array.isArray(v) ? v : [v];
+    const out: string[] = [];
+    for (const item of list) {
+      if (typeof item !== "string") continue;
+      const t = item.trim();
+      if (t.length && !out.includes(t)) out.push(t);
+    }
+    return out;
+  }
+
+  private typeValueForWrite(typeValues: TypeName[]): string | string[] {
+    return typeValues.length > 1 ? [...typeValues] : typeValues[0] ?? "";
+  }
+
+  private readFrontmatterTags(fmObj: Record<string, any>): string[] {
+    const raw = fmObj?.tags ?? fmObj?.tag;
+    const list: unknown[] = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(/[,\s]+/) : [];
+    return list
+      .filter((t): t is string => typeof t === "string")
+      .map((t) => t.trim().replace(/^#/, ""))
+      .filter((t) => t.length > 0);
+  }
+
+  private getFolderType(path: string): TypeName | null {
+    let best: { folder: string; typeValue: TypeName } | null = null;
+    for (const [folder, typeValue] of Object.entries(this.settings.typeFolders)) {
+      const f = normalizePath(folder);
+      if (!typeValue || !path.startsWith(`${f}/`)) continue;
+      if (!best || f.length > best.folder.length) best = { folder: f, typeValue };
+    }
+    return best?.typeValue ?? null;
+  }
+
+  private canonicalizeTypeKey(rawObj: Record<string, any>, location: TypeLocation): Record<string, any> {
+    if (!location.typeValue) return rawObj;
+    if (location.source === "key" && location.key === TYPE_KEY) return rawObj;
+
+    // keep insertion order; derived types get a virtual entry in front
+    const out: Record<string, any> = {};
+    if (location.source !== "key") out[TYPE_KEY] = this.typeValueForWrite(location.typeValues);
+    for (const [k, v] of Object.entries(rawObj)) {
+      if (k === location.key) out[TYPE_KEY] = v;
+      else if (k === TYPE_KEY) out[SHADOWED_TYPE_KEY] = v;
+      else out[k] = v;
+    }
+    return out;
+  }
+
+  // The frontmatter key a canonical TYPE_KEY entry is written under, or null if the
+  // type is already implied by a tag or folder.
+  private resolveTypeKeyForWrite(currentObj: Record<string, any>, path: string, typeValue: unknown): string | null {
+    const location = this.resolveTypeLocation(currentObj, path);
+    if (location.source === "key" && location.key) return location.key;
+    if (location.source && this.valuesEqual(location.typeValues, this.extractTypeValues(typeValue))) return null;
+    return this.primaryTypeKey();
+  }
+
+  private replaceTypeTag(fmObj: Record<string, any>, fromType: string, toType: string | null): string[] {
+    const prefix = this.settings.typeTagPrefix;
+    const tags = this.readFrontmatterTags(fmObj).filter((t) => t !== `${prefix}${fromType}`);
+    if (toType) tags.push(`${prefix}${toType}`);
+    return tags;
   }
 
   private extractNoteRevision(fmObj: Record<string, any>): SchemaRevision | null {
@@ -1132,17 +5018,10 @@ export default class TypeSyncPlugin extends Plugin {
     const lines = frontmatterText.split("\n");
     const keys: string[] = [];
 
-    // Very permissive top-level key matcher: "Key:" at column 0
-    // We don't preserve comments/formatting, so this is good enough for ordering.
-    const re = /^([^\s#][^:]*):\s*(.*)?$/;
-
     for (const line of lines) {
-      const m = line.match(re);
-      if (!m) continue;
-      const keyRaw = m[1];
-      if (!keyRaw) continue;
-      const key = keyRaw.trim();
-      if (key.length === 0) continue;
+      const parsed = this.parseTopLevelKeyLine(line);
+      if (!parsed) continue;
+      const key = parsed.key;
       if (!keysSet.has(key)) continue; // ignore things parseYaml didn't treat as key
       if (!keys.includes(key)) keys.push(key);
     }
@@ -1154,12 +5033,14 @@ export default class TypeSyncPlugin extends Plugin {
 
   private async rewriteExactFrontmatterFromSnapshot(file: TFile, snap: Snapshot): Promise<void> {
     // Best-effort restore to the snapshot's exact frontmatter values + order (but formatting will normalize)
-    const typeValue = snap.typeValue;
-    if (typeValue && this.schemas[typeValue]) {
+    const schema = this.getEffectiveSchema(snap.typeValues);
+    if (snap.typeValue && schema) {
       // If we have schema, ensure schema order if syncOrder enabled; otherwise keep snap order
-      let desiredOrder = this.settings.syncOrder ? this.schemas[typeValue].keysOrdered : snap.keysOrdered;
+      let desiredOrder = this.settings.syncOrder ? schema.keysOrdered : snap.keysOrdered;
       desiredOrder = this.appendInternalKeys(desiredOrder, snap.frontmatterObj);
-      await this.rewriteFrontmatterByOrder(file, desiredOrder, snap.frontmatterObj, { forceTypeValue: typeValue });
+      await this.rewriteFrontmatterByOrder(file, desiredOrder, snap.frontmatterObj, {
+        forceTypeValue: this.typeValueForWrite(snap.typeValues),
+      });
     } else {
       // no schema: just rewrite with snapshot order
       const desiredOrder = this.appendInternalKeys(snap.keysOrdered, snap.frontmatterObj);
@@ -1167,55 +5048,104 @@ export default class TypeSyncPlugin extends Plugin {
     }
   }
 
-  private async rewriteToSchema(
-    file: TFile,
-    typeValue: string,
-    opts: { preserveOverlapValues: boolean; renameHint?: { from: string; to: string } }
-  ): Promise<void> {
-    const schema = this.schemas[typeValue];
-    if (!schema) return;
+  private async rewriteToSchema(file: TFile, typeValue: string, opts: RewriteOptions): Promise<void> {
+    const plan = await this.planSchemaRewrite(file, typeValue, opts);
+    if (!plan) return;
+
+    this.recordValueIssues(file.path, plan.issues);
+    await this.rewriteFrontmatterByOrder(file, plan.finalOrder, plan.outObj, { forceTypeValue: plan.typeOut });
+  }
+
+  // Computes what rewriteToSchema would write, without touching the file.
+  private async planSchemaRewrite(file: TFile, typeValue: string, opts: RewriteOptions): Promise<RewritePlan | null> {
+    if (!this.schemas[typeValue]) return null;
 
     const current = await this.buildSnapshot(file);
+    // multi-typed notes are rewritten to the merge of all their Types
+    const typeValues = this.hasTypeOrDescendant(current.typeValues, typeValue) ? current.typeValues : [typeValue];
+    const schema = this.getEffectiveSchema(typeValues);
+    if (!schema) return null;
+    const typeOut = this.typeValueForWrite(typeValues);
     const currentObj = current.frontmatterObj;
+    // templates keep their own keys and placeholder values untouched
+    const isTemplate = this.isTemplatePath(file.path);
 
     // Build new frontmatter values:
     // - keep overlap values
     // - add missing as null
     // - optionally keep non-schema keys (if removals disabled)
     // - ensure Type equals typeValue
+    // - renamed keys carry their value over and the old key is dropped
+    // value migrations recorded since the note's revision, oldest first; a note TypeSync never
+    // marked only gets the migration being recorded now. Recorded renames join the explicit ones.
+    const transforms = isTemplate
+      ? []
+      : current.noteRev
+        ? this.pendingTransforms(typeValues, current.noteRev)
+        : opts.migration ?? [];
+    const renames = composeRenames([
+      ...transforms
+        .filter((t) => t.kind === "rename" && (t.into ?? []).length > 0)
+        .map((t): KeyRename => ({ from: t.key, to: t.into![0]!, onConflict: t.onConflict })),
+      ...(opts.renames ?? []),
+    ]);
     const desiredKeys = schema.keysOrdered.includes(TYPE_KEY)
       ? schema.keysOrdered
       : [TYPE_KEY, ...schema.keysOrdered];
-    const extraKeys = this.settings.syncPropertyRemovals
+    // only renames whose value actually lands in a schema key; the first one wins a target
+    const moves = new Map<string, KeyRename>();
+    for (const r of renames) {
+      if (moves.has(r.to) || !desiredKeys.includes(r.to) || !Object.prototype.hasOwnProperty.call(currentObj, r.from)) continue;
+      moves.set(r.to, r);
+    }
+    // a guessed rename copies the value; the old key stays unless removals are synced
+    const renamedFrom = new Set([...moves.values()].filter((r) => !r.guessed).map((r) => r.from));
+    const extraKeys = this.settings.syncPropertyRemovals && !isTemplate
       ? []
-      : current.keysOrdered.filter((k) => !desiredKeys.includes(k));
+      : current.keysOrdered.filter((k) => !desiredKeys.includes(k) && !renamedFrom.has(k));
     const finalKeys = [...desiredKeys, ...extraKeys];
 
     const outObj: Record<string, any> = {};
 
-    // optional rename hint (preserve values)
-    const renameFrom = opts.renameHint?.from;
-    const renameTo = opts.renameHint?.to;
-
     for (const key of finalKeys) {
       if (key === TYPE_KEY) {
-        outObj[TYPE_KEY] = typeValue;
+        outObj[TYPE_KEY] = typeOut;
         continue;
       }
 
-      if (renameFrom && renameTo && key === renameTo && Object.prototype.hasOwnProperty.call(currentObj, renameFrom)) {
-        outObj[key] = currentObj[renameFrom];
+      const rename = moves.get(key);
+      if (rename) {
+        const conflict = Object.prototype.hasOwnProperty.call(currentObj, key) ? rename.onConflict ?? "from" : "from";
+        outObj[key] =
+          conflict === "to"
+            ? currentObj[key]
+            : conflict === "merge"
+              ? mergePropertyValues(currentObj[key], currentObj[rename.from])
+              : currentObj[rename.from];
         continue;
       }
 
       if (Object.prototype.hasOwnProperty.call(currentObj, key)) {
         outObj[key] = currentObj[key];
       } else {
-        outObj[key] = null; // blank
+        outObj[key] = isTemplate ? null : this.resolveDefaultValue(file, schema.properties?.[key]);
       }
     }
 
+    for (const t of transforms) applyValueTransform(t, currentObj, outObj);
+
+    // computed keys are always recalculated instead of keeping the note's value
+    if (!isTemplate) {
+      for (const key of this.computedKeysOf(schema)) {
+        if (Object.prototype.hasOwnProperty.call(outObj, key)) outObj[key] = this.computeValue(file, current, key, schema.properties![key]!);
+      }
+    }
+
+    // coerce values to their declared types; anything unsafe is kept as-is and flagged
+    const issues = isTemplate ? [] : this.applyPropertyTypes(outObj, schema);
+
     this.applyRevisionMarkers(outObj, schema.rev);
+    if (Object.prototype.hasOwnProperty.call(currentObj, SHADOWED_TYPE_KEY)) outObj[SHADOWED_TYPE_KEY] = currentObj[SHADOWED_TYPE_KEY];
 
     // When order sync is disabled, we preserve existing file order as much as possible:
     // filter existing order to final keys, then append missing in schema order.
@@ -1228,11 +5158,484 @@ export default class TypeSyncPlugin extends Plugin {
     }
     finalOrder = this.appendInternalKeys(finalOrder, outObj);
 
-    await this.rewriteFrontmatterByOrder(file, finalOrder, outObj, { forceTypeValue: typeValue });
+    return { current, outObj, finalOrder, issues, renames: [...moves.values()], typeOut };
+  }
+
+  private async applyPropertyTypeChange(typeValue: string, properties: Record<string, PropertyDefinition>): Promise<void> {
+    const schema = this.schemas[typeValue];
+    if (!schema) return;
+
+    const schemasBefore = this.cloneSchemas();
+    schema.properties = properties;
+    this.updateSchemaRevision(schema, { added: [], removed: [], orderChanged: false });
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+
+    const files = this.getFilesByType(typeValue);
+    await this.runBulk({
+      title: `Applying property types for Type "${typeValue}"`,
+      files,
+      schemasBefore,
+      perFile: async (f) => {
+        await this.rewriteToSchema(f, typeValue, { preserveOverlapValues: true });
+      },
+      onDone: (done, total, canceled, failures) => {
+        const flagged = this.countFlaggedFiles(files);
+        new Notice(`TypeSync: Updated ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}${flagged ? ` • invalid values in ${flagged} file(s)` : ""}`);
+      },
+    });
+  }
+
+  // The note being typed in only gets its issues listed: coercing a half-typed value (a link
+  // or list) would rewrite it mid-edit, so that and the notice wait until it leaves the editor.
+  private async checkPropertyValues(file: TFile, typeValue: string, snap: Snapshot, leftEditor = false): Promise<void> {
+    const schema = this.getEffectiveSchema(this.hasTypeOrDescendant(snap.typeValues, typeValue) ? snap.typeValues : [typeValue]);
+    if (!schema?.properties) return;
+
+    const before = this.formatIssues(this.valueIssues.get(file.path) ?? []);
+
+    const candidate = { ...snap.frontmatterObj };
+    const issues = this.applyPropertyTypes(candidate, schema);
+    const coerced = Object.keys(candidate).some((k) => !this.valuesEqual(candidate[k], snap.frontmatterObj[k]));
+
+    if (this.isInActiveEditor(file)) {
+      this.recordValueIssues(file.path, issues);
+      if (coerced || issues.length > 0) this.deferredNotes.add(file.path);
+      return;
+    }
+
+    if (coerced) {
+      // rewrite applies the same coercion and records the remaining issues
+      await this.rewriteToSchema(file, typeValue, { preserveOverlapValues: true });
+    } else {
+      this.recordValueIssues(file.path, issues);
+    }
+
+    const after = this.formatIssues(this.valueIssues.get(file.path) ?? []);
+    if (after && (after !== before || leftEditor)) {
+      new Notice(`TypeSync: invalid values in "${file.basename}": ${after}`);
+    }
+  }
+
+  private applyPropertyTypes(fmObj: Record<string, any>, schema: TypeSchema): PropertyIssue[] {
+    const issues: PropertyIssue[] = [];
+    if (!schema.properties) return issues;
+
+    for (const [key, def] of Object.entries(schema.properties)) {
+      if (!Object.prototype.hasOwnProperty.call(fmObj, key)) continue;
+      const res = this.coercePropertyValue(fmObj[key], def);
+      if (res.ok) fmObj[key] = res.value;
+      else issues.push({ key, message: res.message });
+    }
+    return issues;
+  }
+
+  private coercePropertyValue(value: any, def: PropertyDefinition): CoerceResult {
+    if (!def.type) return { ok: true, value };
+    // blanks are valid for every type
+    if (value === null || value === undefined || value === "") return { ok: true, value };
+
+    switch (def.type) {
+      case "text": {
+        if (typeof value === "string") return { ok: true, value };
+        if (typeof value === "number" || typeof value === "boolean") return { ok: true, value: String(value) };
+        return { ok: false, message: "expected text" };
+      }
+      case "number": {
+        if (typeof value === "number" && Number.isFinite(value)) return { ok: true, value };
+        if (typeof value === "string" && /^[-+]?\d+(\.\d+)?$/.test(value.trim())) {
+          return { ok: true, value: Number(value.trim()) };
+        }
+        return { ok: false, message: "expected a number" };
+      }
+      case "date": {
+        if (value instanceof Date && !Number.isNaN(value.getTime())) {
+          return { ok: true, value: value.toISOString().slice(0, 10) };
+        }
+        if (typeof value !== "string") return { ok: false, message: "expected a date (YYYY-MM-DD)" };
+        const m = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ](\d{2}:\d{2}(?::\d{2})?))?$/);
+        if (!m) return { ok: false, message: "expected a date (YYYY-MM-DD)" };
+        const y = Number(m[1]);
+        const mo = Number(m[2]);
+        const d = Number(m[3]);
+        const check = new Date(Date.UTC(y, mo - 1, d));
+        if (check.getUTCFullYear() !== y || check.getUTCMonth() !== mo - 1 || check.getUTCDate() !== d) {
+          return { ok: false, message: "expected a valid calendar date" };
+        }
+        const pad = (n: number) => String(n).padStart(2, "0");
+        return { ok: true, value: `${y}-${pad(mo)}-${pad(d)}${m[4] ? `T${m[4]}` : ""}` };
+      }
+      case "list": {
+        if (Array.isArray(value)) return { ok: true, value };
+        if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+          return { ok: true, value: [value] };
+        }
+        return { ok: false, message: "expected a list" };
+      }
+      case "link": {
+        if (typeof value !== "string") return { ok: false, message: "expected a link" };
+        const t = value.trim();
+        if (/^\[\[[^[\]]+\]\]$/.test(t) || /^[a-z][a-z0-9+.-]*:\/\//i.test(t)) return { ok: true, value };
+        if (t.includes("[[") || t.includes("]]")) return { ok: false, message: "malformed link" };
+        return { ok: true, value: `[[${t}]]` };
+      }
+      case "checkbox": {
+        if (typeof value === "boolean") return { ok: true, value };
+        if (typeof value === "string") {
+          const t = value.trim().toLowerCase();
+          if (t === "true" || t === "yes" || t === "on") return { ok: true, value: true };
+          if (t === "false" || t === "no" || t === "off") return { ok: true, value: false };
+        }
+        return { ok: false, message: "expected true or false" };
+      }
+    }
+    return { ok: true, value };
+  }
+
+  private resolveDefaultValue(file: TFile, def: PropertyDefinition | undefined): any {
+    if (!def || def.default === undefined || def.default === null) return null; // blank
+    return this.expandTemplateTokens(def.default, file);
+  }
+
+  private expandTemplateTokens(value: any, file: TFile): any {
+    if (Array.isArray(value)) return value.map((v) => this.expandTemplateTokens(v, file));
+    if (typeof value !== "string") return value;
+
+    return value.replace(/\{\{\s*(date|time|title|folder|created)(?::([^}]+))?\s*\}\}/g, (_m, token: string, format?: string) => {
+      switch (token) {
+        case "date":
+          return moment().format(format?.trim() || "YYYY-MM-DD");
+        case "time":
+          return moment().format(format?.trim() || "HH:mm");
+        case "title":
+          return file.basename;
+        case "folder": {
+          const folder = file.parent?.path ?? "";
+          return folder === "/" ? "" : folder;
+        }
+        case "created":
+          return moment(file.stat.ctime).format(format?.trim() || "YYYY-MM-DD");
+      }
+      return "";
+    });
+  }
+
+  // Required / pattern / allowed-value rules; returns the note's violations and records them.
+  private validateNote(path: string, snap: Snapshot): PropertyIssue[] {
+    const schema = snap.typeValues.every((t) => !!this.schemas[t]) ? this.getEffectiveSchema(snap.typeValues) : null;
+    const issues: PropertyIssue[] = [];
+
+    if (schema && !this.isTemplatePath(path)) {
+      for (const key of schema.keysOrdered) {
+        const def = schema.properties?.[key];
+        if (!def) continue;
+        const value = snap.frontmatterObj[key];
+        const blank = value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+        if (blank) {
+          if (def.required) issues.push({ key, message: "required" });
+          continue;
+        }
+
+        const items: any[] = Array.isArray(value) ? value : [value];
+        if (def.allowedValues?.length) {
+          const off = items.filter((v) => !def.allowedValues!.some((a) => String(a) === String(v)));
+          if (off.length > 0) issues.push({ key, message: `not allowed: ${off.map((v) => describeValue(v)).join(", ")}` });
+        }
+        if (def.pattern) {
+          const re = this.compilePattern(def.pattern);
+          if (re && items.some((v) => !re.test(String(v)))) issues.push({ key, message: `doesn't match ${def.pattern}` });
+        }
+      }
+    }
+
+    const prev = this.validationIssues.get(path);
+    if (issues.length > 0) this.validationIssues.set(path, issues);
+    else this.validationIssues.delete(path);
+    if (!this.valuesEqual(prev ?? [], issues)) this.onValidationChanged();
+    return issues;
+  }
+
+  private compilePattern(pattern: string): RegExp | null {
+    try {
+      return new RegExp(pattern);
+    } catch {
+      return null; // a broken pattern is ignored rather than failing every note
+    }
+  }
+
+  private revalidateAll(): void {
+    for (const [path, snap] of this.snapshots) this.validateNote(path, snap);
+  }
+
+  private onValidationChanged(): void {
+    this.updateValidationStatus();
+    for (const leaf of this.app.workspace.getLeavesOfType(VALIDATION_VIEW_TYPE)) {
+      if (leaf.view instanceof ValidationView) leaf.view.render();
+    }
+  }
+
+  private updateValidationStatus(): void {
+    const el = this.validationStatusEl;
+    if (!el) return;
+    const count = this.validationIssues.size;
+    el.setText(count > 0 ? `TypeSync: ${count} invalid note${count === 1 ? "" : "s"}` : "");
+    el.toggle(count > 0);
+  }
+
+  getAllowedValues(file: TFile, key: string): any[] {
+    const snap = this.snapshots.get(file.path);
+    if (!snap || snap.typeValues.length === 0) return [];
+    const canonical = this.settings.typeKeys.includes(key) ? TYPE_KEY : key;
+    return this.getEffectiveSchema(snap.typeValues)?.properties?.[canonical]?.allowedValues ?? [];
+  }
+
+  // Groups off-list values by each note's primary Type and key, from the current snapshots.
+  private collectOffListValues(): OffListGroup[] {
+    const groups = new Map<string, OffListGroup>();
+    for (const file of this.getSyncedFiles()) {
+      const snap = this.snapshots.get(file.path);
+      if (!snap?.typeValue || this.isTemplatePath(file.path)) continue;
+      const schema = this.getEffectiveSchema(snap.typeValues);
+      for (const [key, def] of Object.entries(schema?.properties ?? {})) {
+        if (!def.allowedValues?.length) continue;
+        const value = snap.frontmatterObj[key];
+        if (value === undefined || value === null || value === "") continue;
+
+        const items: any[] = Array.isArray(value) ? value : [value];
+        for (const item of items) {
+          if (def.allowedValues.some((a) => String(a) === String(item))) continue;
+          const id = `${snap.typeValue}\u0000${key}`;
+          const group = groups.get(id) ?? { typeValue: snap.typeValue, key, allowed: def.allowedValues, values: [] };
+          groups.set(id, group);
+          const entry = group.values.find((v) => String(v.value) === String(item));
+          if (entry) {
+            if (!entry.files.includes(file)) entry.files.push(file);
+          } else {
+            group.values.push({ value: item, files: [file] });
+          }
+        }
+      }
+    }
+    return [...groups.values()];
+  }
+
+  // Replaces one value of a key (also inside lists) across every note of a Type.
+  private async remapPropertyValue(typeValue: TypeName, key: string, from: any, to: any): Promise<void> {
+    const matches = (v: any) => String(v) === String(from);
+    const files = this.getFilesByType(typeValue).filter((f) => {
+      const value = this.snapshots.get(f.path)?.frontmatterObj[key];
+      return Array.isArray(value) ? value.some(matches) : value !== undefined && value !== null && matches(value);
+    });
+
+    await this.runBulk({
+      title: `Remapping ${key}: ${describeValue(from)} → ${describeValue(to)}`,
+      files,
+      perFile: async (f) => {
+        const snap = await this.buildSnapshot(f);
+        const value = snap.frontmatterObj[key];
+        let next: any;
+        if (Array.isArray(value)) {
+          next = value.map((v) => (matches(v) ? to : v)).filter((v, i, all) => all.findIndex((o) => this.valuesEqual(o, v)) === i);
+        } else if (value !== undefined && value !== null && matches(value)) {
+          next = to;
+        } else {
+          return;
+        }
+        await this.setPropertyValues(f, snap, { [key]: next });
+      },
+      onDone: (done, total, canceled, failures) => {
+        new Notice(`TypeSync: Remapped ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
+      },
+    });
+  }
+
+  // Renames a key in one Type's schema and carries each note's value over to the new key.
+  // When the new key already exists in the schema (own or inherited) the two are folded into one.
+  async renameProperty(typeValue: TypeName, from: string, to: string, onConflict: RenameConflict): Promise<void> {
+    const schema = this.schemas[typeValue];
+    if (!schema || !schema.keysOrdered.includes(from)) {
+      new Notice(`TypeSync: Type "${typeValue}" has no property "${from}".`);
+      return;
+    }
+    if (from === TYPE_KEY || to === TYPE_KEY || INTERNAL_KEYS.has(to) || from === to) {
+      new Notice(`TypeSync: can't rename "${from}" to "${to}".`);
+      return;
+    }
+
+    const inherited = this.getInheritedKeys(typeValue).some((g) => g.keys.includes(to));
+    const merging = inherited || schema.keysOrdered.includes(to);
+    const schemasBefore = this.cloneSchemas();
+    schema.keysOrdered = merging
+      ? schema.keysOrdered.filter((k) => k !== from)
+      : schema.keysOrdered.map((k) => (k === from ? to : k));
+    this.movePropertyDefinition(schema, from, to);
+    this.updateSchemaRevision(schema, { added: merging ? [] : [to], removed: [from], orderChanged: false });
+    // notes that catch up later move their value too instead of losing it
+    this.recordMigration(schema, [{ kind: "rename", key: from, into: [to], onConflict }]);
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+
+    const renames: KeyRename[] = [{ from, to, onConflict }];
+    await this.runBulk({
+      title: `Renaming ${from} → ${to} in Type "${typeValue}"`,
+      files: this.getFilesByType(typeValue),
+      schemasBefore,
+      perFile: async (f) => {
+        await this.rewriteToSchema(f, typeValue, { preserveOverlapValues: true, renames });
+      },
+      onDone: (done, total, canceled, failures) => {
+        new Notice(`TypeSync: Renamed in ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
+      },
+    });
+  }
+
+  // Records the transforms at a new schema revision, previews their effect and rewrites the chosen notes.
+  // Notes left out (or offline) pick the migration up when they catch up with the schema.
+  async migrateValues(typeValue: TypeName, transforms: ValueTransform[]): Promise<void> {
+    const schema = this.schemas[typeValue];
+    if (!schema) return;
+
+    const schemasBefore = this.cloneSchemas();
+    // split targets become schema keys right after their source
+    const added: string[] = [];
+    for (const t of transforms) {
+      if (t.kind !== "split") continue;
+      let at = schema.keysOrdered.indexOf(t.key);
+      for (const k of t.into ?? []) {
+        if (schema.keysOrdered.includes(k) || k === TYPE_KEY || INTERNAL_KEYS.has(k)) continue;
+        schema.keysOrdered.splice(at < 0 ? schema.keysOrdered.length : ++at, 0, k);
+        added.push(k);
+      }
+    }
+    this.updateSchemaRevision(schema, { added, removed: [], orderChanged: false });
+    this.recordMigration(schema, transforms);
+
+    const title = `Transforming values of Type "${typeValue}"`;
+    const targets = this.getFilesByType(typeValue).map((file) => ({ file, typeValue }));
+    const built = await this.buildPreviews(targets, { preserveOverlapValues: true, migration: transforms });
+
+    // recorded migrations reach every note behind this revision, so there is no per-note choice
+    const decision = await this.promptPreview(`${title}: ${transforms.map(describeTransform).join("; ")}`, built, false);
+    if (decision.kind === "abort") {
+      this.schemas[typeValue] = schemasBefore[typeValue]!;
+      return;
+    }
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+
+    let stale = 0;
+    await this.runBulk({
+      title,
+      files: decision.files,
+      schemasBefore,
+      perFile: async (f) => {
+        const plan = built.plans.get(f.path);
+        if (plan && !(await this.applyRewritePlan(f, plan))) stale++;
+      },
+      onDone: (done, total, canceled, failures) => {
+        new Notice(
+          `TypeSync: Transformed ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}` +
+          `${stale ? ` • changed since preview, skipped: ${stale}` : ""}`
+        );
+      },
+    });
+  }
+
+  // Ties transforms to the schema's current revision, so notes still behind it get them later.
+  private recordMigration(schema: TypeSchema, transforms: ValueTransform[]): void {
+    if (transforms.length === 0) return;
+    schema.migrations = [...(schema.migrations ?? []), { rev: { ...schema.rev }, transforms }].slice(-MAX_SCHEMA_HISTORY);
+  }
+
+  // Transforms from every schema in the note's chains that were recorded after its revision.
+  private pendingTransforms(typeValues: TypeName[], noteRev: SchemaRevision): ValueTransform[] {
+    const migrations: SchemaMigration[] = [];
+    for (const t of this.expandTypeChains(typeValues)) {
+      for (const m of this.schemas[t]?.migrations ?? []) {
+        if (this.isSchemaAheadOfNote(m.rev, noteRev)) migrations.push(m);
+      }
+    }
+    migrations.sort((a, b) => this.compareRevisions(a.rev, b.rev));
+    const out: ValueTransform[] = [];
+    migrations.forEach((m) => out.push(...m.transforms));
+    return out;
+  }
+
+  // Writes the given keys' values and leaves every other entry as it is.
+  private async setPropertyValues(file: TFile, snap: Snapshot, values: Record<string, any>): Promise<void> {
+    const obj = { ...snap.frontmatterObj, ...values };
+    const order = [...snap.keysOrdered, ...Object.keys(values).filter((k) => !snap.keysOrdered.includes(k))];
+    await this.rewriteFrontmatterByOrder(
+      file,
+      this.appendInternalKeys(order, obj),
+      obj,
+      snap.typeValue ? { forceTypeValue: this.typeValueForWrite(snap.typeValues) } : {}
+    );
+  }
+
+  getValidationIssues(): { file: TFile; issues: PropertyIssue[] }[] {
+    const out: { file: TFile; issues: PropertyIssue[] }[] = [];
+    for (const [path, issues] of this.validationIssues) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) out.push({ file, issues });
+    }
+    return out.sort((a, b) => a.file.path.localeCompare(b.file.path));
+  }
+
+  async openValidationView(): Promise<void> {
+    const existing = this.app.workspace.getLeavesOfType(VALIDATION_VIEW_TYPE)[0];
+    if (existing) {
+      this.app.workspace.revealLeaf(existing);
+      return;
+    }
+    const leaf = this.app.workspace.getRightLeaf(false) ?? this.app.workspace.getLeaf(true);
+    await leaf.setViewState({ type: VALIDATION_VIEW_TYPE, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  private recordValueIssues(path: string, issues: PropertyIssue[]): void {
+    if (issues.length > 0) this.valueIssues.set(path, issues);
+    else this.valueIssues.delete(path);
+  }
+
+  private countFlaggedFiles(files: TFile[]): number {
+    return files.filter((f) => this.valueIssues.has(f.path)).length;
+  }
+
+  private formatIssues(issues: PropertyIssue[]): string {
+    return issues.map((i) => `${i.key} (${i.message})`).join(", ");
+  }
+
+  private valuesEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private movePropertyDefinition(schema: TypeSchema, from: string, to: string): void {
+    const def = schema.properties?.[from];
+    if (!schema.properties || !def) return;
+    delete schema.properties[from];
+    if (!schema.properties[to]) schema.properties[to] = def;
+  }
+
+  private pruneSchemaProperties(schema: TypeSchema): void {
+    if (!schema.properties) return;
+    for (const key of Object.keys(schema.properties)) {
+      if (!schema.keysOrdered.includes(key)) delete schema.properties[key];
+    }
   }
 
   private async setTypeValue(file: TFile, typeValue: string): Promise<void> {
     const snap = await this.buildSnapshot(file);
+    if (snap.typeSource === "tag" && snap.typeValue) {
+      // tag-derived: swap the type tag instead of adding a type key
+      const tagKey = Object.prototype.hasOwnProperty.call(snap.frontmatterObj, "tags") ? "tags" : "tag";
+      const tagged = { ...snap.frontmatterObj, [tagKey]: this.replaceTypeTag(snap.frontmatterObj, snap.typeValue, typeValue) };
+      delete tagged[TYPE_KEY];
+      const tagOrder = snap.keysOrdered.filter((k) => k !== TYPE_KEY);
+      if (!tagOrder.includes(tagKey)) tagOrder.push(tagKey);
+      await this.rewriteFrontmatterByOrder(file, this.appendInternalKeys(tagOrder, tagged), tagged, {});
+      return;
+    }
     const obj = { ...snap.frontmatterObj, [TYPE_KEY]: typeValue };
     const order = snap.hasFrontmatter ? snap.keysOrdered : [TYPE_KEY, ...Object.keys(obj)];
     // Ensure Type is in order
@@ -1241,9 +5644,119 @@ export default class TypeSyncPlugin extends Plugin {
     await this.rewriteFrontmatterByOrder(file, finalOrder, obj, { forceTypeValue: typeValue });
   }
 
+  private isSetTypeTarget(file: TFile): boolean {
+    return file.extension === "md" && this.isPathSynced(file.path) && !this.isSchemaNotePath(file.path);
+  }
+
+  // Synced notes among the given files, with folders expanded to every note inside them.
+  private collectSetTypeTargets(items: TAbstractFile[]): TFile[] {
+    const out = new Map<string, TFile>();
+    const prefixes: string[] = [];
+    for (const item of items) {
+      if (item instanceof TFolder) prefixes.push(item.isRoot() ? "" : `${item.path}/`);
+      else if (item instanceof TFile && this.isSetTypeTarget(item)) out.set(item.path, item);
+    }
+    if (prefixes.length > 0) {
+      for (const f of this.getSyncedFiles()) {
+        if (prefixes.some((p) => f.path.startsWith(p))) out.set(f.path, f);
+      }
+    }
+    return [...out.values()];
+  }
+
+  // Search results aren't part of Obsidian's public API; the core search view keeps them in
+  // an internal map. Returns a message for the user when that map can't be read.
+  private getSearchResultFiles(): TFile[] | string {
+    const leaf = this.app.workspace.getLeavesOfType("search")[0];
+    if (!leaf) return "open a search first.";
+    try {
+      const view = leaf.view as unknown as { dom?: { resultDomLookup?: unknown } };
+      const lookup = view.dom?.resultDomLookup;
+      if (lookup instanceof Map) return [...lookup.keys()].filter((f): f is TFile => f instanceof TFile);
+    } catch (e) {
+      console.error("TypeSync search results error", e);
+    }
+    return "can't read the search results in this version of Obsidian. Select the notes in the file explorer and use \"TypeSync: Set Type of … note(s)\" from their menu instead.";
+  }
+
+  private chooseTypeForFiles(files: TFile[]): void {
+    if (files.length === 0) { new Notice("TypeSync: no synced notes to set a Type on."); return; }
+    const types = this.getTypeNames();
+    if (types.length === 0) { new Notice("TypeSync: no schemas found."); return; }
+    new TypeSuggestModal(this.app, types, `Type for ${files.length} note(s)…`, (typeValue) => {
+      this.setTypeOfFiles(files, typeValue).catch((e) => console.error("TypeSync set type error", e));
+    }).open();
+  }
+
+  // One confirmation for the whole batch, then each note gets the Type and its schema.
+  async setTypeOfFiles(files: TFile[], typeValue: TypeName): Promise<void> {
+    const targets = files.filter((f) => this.isPathInTypeScope(f.path, typeValue));
+    const skipped = files.length - targets.length;
+    if (targets.length === 0) {
+      new Notice(`TypeSync: none of these notes are in the paths synced for Type "${typeValue}".`);
+      return;
+    }
+
+    const removalWarning = this.settings.syncPropertyRemovals
+      ? " Warning: This removes properties not in the schema."
+      : "";
+    const ok = await this.promptYesNo(
+      `Set Type "${typeValue}" on ${targets.length} note(s) and align them to its schema?` +
+        (skipped ? ` ${skipped} note(s) outside the Type's paths are skipped.` : "") +
+        removalWarning,
+      "Set Type",
+      "Cancel"
+    );
+    if (!ok) return;
+
+    await this.runBulk({
+      title: `Setting Type "${typeValue}"`,
+      files: targets,
+      perFile: async (f) => {
+        await this.setTypeValue(f, typeValue);
+        await this.rewriteToSchema(f, typeValue, { preserveOverlapValues: true });
+      },
+      onDone: (done, total, canceled, failures) => {
+        new Notice(`TypeSync: Set Type on ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
+      },
+    });
+  }
+
+  // Swaps one Type for another, keeping the rest of a multi-typed note's list.
+  private async replaceTypeValue(file: TFile, fromType: string, toType: string): Promise<void> {
+    const snap = await this.buildSnapshot(file);
+    if (snap.typeValues.length <= 1) {
+      await this.setTypeValue(file, toType);
+      return;
+    }
+
+    const typeValues = snap.typeValues
+      .map((t) => (t === fromType ? toType : t))
+      .filter((t, i, all) => all.indexOf(t) === i);
+    const obj = { ...snap.frontmatterObj };
+
+    if (snap.typeSource === "tag") {
+      const tagKey = Object.prototype.hasOwnProperty.call(obj, "tags") ? "tags" : "tag";
+      obj[tagKey] = this.replaceTypeTag(obj, fromType, toType);
+      delete obj[TYPE_KEY];
+      const order = snap.keysOrdered.filter((k) => k !== TYPE_KEY);
+      await this.rewriteFrontmatterByOrder(file, this.appendInternalKeys(order, obj), obj, {});
+      return;
+    }
+
+    const typeOut = this.typeValueForWrite(typeValues);
+    obj[TYPE_KEY] = typeOut;
+    await this.rewriteFrontmatterByOrder(file, this.appendInternalKeys(snap.keysOrdered, obj), obj, { forceTypeValue: typeOut });
+  }
+
   private async removeTypeKey(file: TFile): Promise<void> {
     const snap = await this.buildSnapshot(file);
+    if (snap.typeSource === "folder") return; // folder rules cannot be undone from the note
     const obj = { ...snap.frontmatterObj };
+    if (snap.typeSource === "tag") {
+      const tagKey = Object.prototype.hasOwnProperty.call(obj, "tags") ? "tags" : "tag";
+      for (const t of snap.typeValues) obj[tagKey] = this.replaceTypeTag(obj, t, null);
+    }
     delete obj[TYPE_KEY];
     delete obj[REV_AT_KEY];
     delete obj[REV_ID_KEY];
@@ -1256,13 +5769,12 @@ export default class TypeSyncPlugin extends Plugin {
     file: TFile,
     keysOrdered: string[],
     fmObj: Record<string, any>,
-    opts: { forceTypeValue?: string }
+    opts: { forceTypeValue?: string | string[] }
   ): Promise<void> {
     // suppression so our own modify doesn't prompt
     this.suppressOnce(file.path);
 
     const current = await this.app.vault.read(file);
-    const { bodyText } = this.extractFrontmatter(current);
 
     // Create object in insertion order
     const orderedObj: Record<string, any> = {};
@@ -1280,29 +5792,208 @@ export default class TypeSyncPlugin extends Plugin {
       orderedObj[TYPE_KEY] = opts.forceTypeValue ?? fmObj[TYPE_KEY];
     }
 
-    // YAML stringify
-    let yamlText = stringifyYaml(orderedObj);
+    const withShadowed = Object.prototype.hasOwnProperty.call(fmObj, SHADOWED_TYPE_KEY)
+      ? this.placeShadowedType(file, current, orderedObj, fmObj[SHADOWED_TYPE_KEY])
+      : orderedObj;
+    const nextContent = this.buildContentWithFrontmatter(current, this.mapTypeKeyForWrite(file, current, withShadowed));
 
-    // Convert "key: null" lines into "key:" for blanks
-    // We don't care about formatting fidelity.
+    if (nextContent !== current) {
+      this.recordJournalWrite(file.path, current, nextContent);
+      await this.app.vault.modify(file, nextContent);
+      this.ownWriteMtimes.set(file.path, file.stat.mtime);
+    }
+
+    // refresh snapshot after write
+    const snap = await this.buildSnapshot(file);
+    this.snapshots.set(file.path, snap);
+    this.validateNote(file.path, snap);
+  }
+
+  // A note's own "Type" goes back after the key it followed in the note, not after the
+  // revision markers where other internal keys end up.
+  private placeShadowedType(file: TFile, content: string, orderedObj: Record<string, any>, value: any): Record<string, any> {
+    const { frontmatterText, hasFrontmatter } = this.extractFrontmatter(content);
+    let rawObj: Record<string, any> = {};
+    try {
+      rawObj = hasFrontmatter ? (parseYaml(frontmatterText) ?? {}) : {};
+    } catch {
+      rawObj = {};
+    }
+    const location = this.resolveTypeLocation(rawObj, file.path);
+    const rawOrder = hasFrontmatter ? this.extractOrderedKeysFromFrontmatterText(frontmatterText, new Set(Object.keys(rawObj))) : [];
+    const at = rawOrder.indexOf(TYPE_KEY);
+    const follows = rawOrder
+      .slice(0, Math.max(at, 0))
+      .map((k) => (k === location.key ? TYPE_KEY : k))
+      .reverse()
+      .find((k) => Object.prototype.hasOwnProperty.call(orderedObj, k));
+
+    const out: Record<string, any> = {};
+    if (follows === undefined) out[SHADOWED_TYPE_KEY] = value;
+    for (const [k, v] of Object.entries(orderedObj)) {
+      if (k === SHADOWED_TYPE_KEY) continue;
+      out[k] = v;
+      if (k === follows) out[SHADOWED_TYPE_KEY] = value;
+    }
+    return out;
+  }
+
+  private mapTypeKeyForWrite(file: TFile, content: string, orderedObj: Record<string, any>): Record<string, any> {
+    const shadowed = Object.prototype.hasOwnProperty.call(orderedObj, SHADOWED_TYPE_KEY);
+    if (!shadowed && !Object.prototype.hasOwnProperty.call(orderedObj, TYPE_KEY)) return orderedObj;
+
+    let typeKey: string | null = TYPE_KEY;
+    if (Object.prototype.hasOwnProperty.call(orderedObj, TYPE_KEY)) {
+      let currentObj: Record<string, any> = {};
+      const { frontmatterText, hasFrontmatter } = this.extractFrontmatter(content);
+      try {
+        currentObj = hasFrontmatter ? (parseYaml(frontmatterText) ?? {}) : {};
+      } catch {
+        currentObj = {};
+      }
+      typeKey = this.resolveTypeKeyForWrite(currentObj, file.path, orderedObj[TYPE_KEY]);
+    }
+    if (typeKey === TYPE_KEY && !shadowed) return orderedObj;
+
+    // the note's own "Type" goes back under its name unless the type itself is written there
+    const out: Record<string, any> = {};
     for (const [k, v] of Object.entries(orderedObj)) {
-      if (v === null) {
-        const re = new RegExp(`^${this.escapeRegex(k)}:\\s*null\\s*$`, "gm");
-        yamlText = yamlText.replace(re, `${k}:`);
+      if (k === TYPE_KEY) {
+        if (typeKey) out[typeKey] = v;
+      } else if (k === SHADOWED_TYPE_KEY) {
+        if (typeKey !== TYPE_KEY || !Object.prototype.hasOwnProperty.call(orderedObj, TYPE_KEY)) out[TYPE_KEY] = v;
+      } else {
+        out[k] = v;
       }
     }
+    return out;
+  }
 
-    const nextContent = `---\n${yamlText}---\n${bodyText ?? ""}`;
+  // Rewrites only the frontmatter entries whose value changed; untouched entries keep their
+  // exact text (quoting, comments, flow vs block style) and are only moved to reorder them.
+  // Frontmatter whose lines can't all be matched to its keys is re-serialized as a whole.
+  private buildContentWithFrontmatter(content: string, orderedObj: Record<string, any>): string {
+    const source = this.splitFrontmatterSource(content);
+    const emptyLayout: FrontmatterLayout = { header: [], blocks: new Map(), trailer: [] };
+    let layout = this.splitFrontmatterBlocks(source?.frontmatterText ?? "") ?? emptyLayout;
+
+    let originalObj: Record<string, any> = {};
+    if (source) {
+      try {
+        originalObj = parseYaml(source.frontmatterText) ?? {};
+        const keys = Object.keys(originalObj);
+        if (keys.length !== layout.blocks.size || keys.some((k) => !layout.blocks.has(k))) layout = emptyLayout;
+      } catch {
+        originalObj = {}; // unparsable: every entry gets re-rendered
+      }
+    }
 
-    await this.app.vault.modify(file, nextContent);
+    // comments and blank lines above a dropped key stay where they were, above the next kept key
+    let orphaned: string[] = [];
+    for (const [key, block] of layout.blocks) {
+      if (!Object.prototype.hasOwnProperty.call(orderedObj, key)) {
+        orphaned.push(...block.leading);
+      } else if (orphaned.length > 0) {
+        block.leading = [...orphaned, ...block.leading];
+        orphaned = [];
+      }
+    }
 
-    // refresh snapshot after write
-    const snap = await this.buildSnapshot(file);
-    this.snapshots.set(file.path, snap);
+    const lines: string[] = [...layout.header];
+    for (const [key, value] of Object.entries(orderedObj)) {
+      const block = layout.blocks.get(key);
+      const unchanged =
+        !!block &&
+        Object.prototype.hasOwnProperty.call(originalObj, key) &&
+        this.valuesEqual(originalObj[key], value);
+
+      if (block && unchanged) {
+        lines.push(...block.leading, ...block.lines);
+      } else {
+        lines.push(...(block?.leading ?? []), ...this.renderYamlEntry(key, value, block?.keyText));
+      }
+    }
+    lines.push(...orphaned, ...layout.trailer);
+
+    const fmText = lines.join("\n");
+    if (!source) return `---\n${fmText}\n---\n${content}`;
+    return `---\n${fmText.length > 0 ? `${fmText}\n` : ""}${source.rest}`;
+  }
+
+  // Like extractFrontmatter, but keeps everything from the closing "---" on byte-for-byte.
+  private splitFrontmatterSource(content: string): { frontmatterText: string; rest: string } | null {
+    if (!content.startsWith("---\n")) return null;
+    if (content.startsWith("---\n---")) return { frontmatterText: "", rest: content.slice(4) };
+
+    const end = content.indexOf("\n---", 3);
+    if (end === -1) return null;
+    return { frontmatterText: content.slice(4, end), rest: content.slice(end + 1) };
+  }
+
+  // Null when a top-level line is neither a key, a continuation, a comment nor blank
+  // (e.g. "-foo:" or a complex key), so no entry can be kept verbatim.
+  private splitFrontmatterBlocks(frontmatterText: string): FrontmatterLayout | null {
+    const layout: FrontmatterLayout = { header: [], blocks: new Map(), trailer: [] };
+    if (frontmatterText.length === 0) return layout;
+
+    let current: FrontmatterBlock | null = null;
+    let pending: string[] = []; // blank and comment lines, attached to whatever follows
+
+    for (const line of frontmatterText.split("\n")) {
+      const parsed = this.parseTopLevelKeyLine(line);
+      if (parsed) {
+        if (layout.blocks.has(parsed.key)) return null;
+        current = { keyText: parsed.keyText, leading: pending, lines: [line] };
+        pending = [];
+        layout.blocks.set(parsed.key, current);
+        continue;
+      }
+
+      const isContinuation = /^\s+\S/.test(line) || /^-(\s|$)/.test(line);
+      if (!isContinuation && !/^\s*(#.*)?$/.test(line)) return null;
+      if (current && isContinuation) {
+        current.lines.push(...pending, line);
+        pending = [];
+      } else if (!current) {
+        layout.header.push(line);
+      } else {
+        pending.push(line);
+      }
+    }
+
+    layout.trailer = pending;
+    return layout;
+  }
+
+  private parseTopLevelKeyLine(line: string): { key: string; keyText: string } | null {
+    const m = line.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:{[!&*|>%@`][^:]*?)\s*:(?:\s|$)/);
+    if (!m || !m[1]) return null;
+
+    const keyText = m[1];
+    let key = keyText.trim();
+    if (key.startsWith('"')) {
+      try {
+        key = JSON.parse(key) as string;
+      } catch {
+        key = key.slice(1, -1);
+      }
+    } else if (key.startsWith("'")) {
+      key = key.slice(1, -1).replace(/''/g, "'");
+    }
+    return key.length > 0 ? { key, keyText } : null;
   }
 
-  private escapeRegex(s: string): string {
-    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  private renderYamlEntry(key: string, value: any, keyText?: string): string[] {
+    const renderedKey = stringifyYaml({ [key]: null }).replace(/\s+$/, "").replace(/:\s*null$/, "");
+    const outKey = keyText ?? renderedKey;
+
+    // blanks render as a bare "key:"
+    if (value === null || value === undefined) return [`${outKey}:`];
+
+    const lines = stringifyYaml({ [key]: value }).replace(/\n$/, "").split("\n");
+    const first = lines[0] ?? "";
+    if (first.startsWith(renderedKey)) lines[0] = outKey + first.slice(renderedKey.length);
+    return lines;
   }
 
   private normalizeSchemas(schemas: Record<TypeName, TypeSchema>): void {
@@ -1317,7 +6008,53 @@ export default class TypeSyncPlugin extends Plugin {
       if (!(s as any).rev) {
         (s as any).rev = this.createSchemaRevision();
       }
+      if (s.properties !== undefined) {
+        if (!s.properties || typeof s.properties !== "object") {
+          delete s.properties;
+        } else {
+          for (const def of Object.values(s.properties)) {
+            if (!def) continue;
+            if (def.type && !PROPERTY_TYPES.includes(def.type)) delete def.type;
+            if (def.required !== undefined && def.required !== true) delete def.required;
+            if (def.pattern !== undefined && typeof def.pattern !== "string") delete def.pattern;
+            if (def.allowedValues !== undefined && !Array.isArray(def.allowedValues)) delete def.allowedValues;
+            if (def.computed !== undefined && !COMPUTED_KINDS.includes(def.computed)) delete def.computed;
+            if (def.computedFrom !== undefined && typeof def.computedFrom !== "string") delete def.computedFrom;
+          }
+        }
+      }
+      if (s.extends !== undefined && (typeof s.extends !== "string" || s.extends === t)) {
+        delete s.extends;
+      }
+      for (const field of ["include", "exclude"] as const) {
+        const globs = s[field];
+        if (globs === undefined) continue;
+        if (!Array.isArray(globs)) delete s[field];
+        else s[field] = globs.map(String).filter((g) => g.trim().length > 0);
+      }
+      for (const field of ["newNoteFolder", "newNoteName"] as const) {
+        if (s[field] !== undefined && (typeof s[field] !== "string" || !s[field]!.trim())) delete s[field];
+      }
+      if (s.history !== undefined && !Array.isArray(s.history)) {
+        delete s.history;
+      } else if (s.history) {
+        s.history = s.history.filter((e) => !!e && Array.isArray(e.keysOrdered) && typeof e.revisionId === "string");
+      }
+      if (s.migrations !== undefined && !Array.isArray(s.migrations)) {
+        delete s.migrations;
+      } else if (s.migrations) {
+        s.migrations = s.migrations.filter(
+          (m) =>
+            !!m && !!m.rev && typeof m.rev.revisionId === "string" && Array.isArray(m.transforms) &&
+            m.transforms.every((t) => !!t && t.kind in TRANSFORM_LABELS && typeof t.key === "string")
+        );
+      }
     }
+    this.ensureHistoryEntries(schemas);
+  }
+
+  private cloneSchemas(): Record<TypeName, TypeSchema> {
+    return JSON.parse(JSON.stringify(this.schemas)) as Record<TypeName, TypeSchema>;
   }
 
   private createSchemaRevision(): SchemaRevision {
@@ -1348,9 +6085,11 @@ export default class TypeSyncPlugin extends Plugin {
     fmObj[REV_ID_KEY] = rev.revisionId;
   }
 
+  // The shadowed "Type" isn't appended: rewriteFrontmatterByOrder puts it back in place.
   private appendInternalKeys(order: string[], fmObj: Record<string, any>): string[] {
     const next = [...order];
     for (const key of INTERNAL_KEYS) {
+      if (key === SHADOWED_TYPE_KEY) continue;
       if (Object.prototype.hasOwnProperty.call(fmObj, key) && !next.includes(key)) {
         next.push(key);
       }
@@ -1358,13 +6097,39 @@ export default class TypeSyncPlugin extends Plugin {
     return next;
   }
 
+  // Every schema change ends here. The revision being replaced is already the last history
+  // entry (see ensureHistoryEntries), so pushing the new state keeps both.
   private updateSchemaRevision(
     schema: TypeSchema,
     change: { added: string[]; removed: string[]; orderChanged: boolean }
   ): void {
     const rev = this.createSchemaRevision();
     schema.rev = rev;
+    this.pruneSchemaProperties(schema);
     schema.lastChangeSummary = this.buildChangeSummary(change.added, change.removed, change.orderChanged, rev);
+    this.pushSchemaHistory(schema);
+  }
+
+  // Schemas loaded from before history was kept, or just created, get their current revision
+  // as the first entry, so their first edit still has the old state to diff and restore.
+  private ensureHistoryEntries(schemas: Record<TypeName, TypeSchema>): void {
+    for (const schema of Object.values(schemas)) {
+      if (!schema.history?.length) this.pushSchemaHistory(schema);
+    }
+  }
+
+  private pushSchemaHistory(schema: TypeSchema): void {
+    const summary = schema.lastChangeSummary ?? this.buildChangeSummary([], [], false, schema.rev);
+    const entry: SchemaHistoryEntry = { ...summary, keysOrdered: [...schema.keysOrdered] };
+    if (schema.properties && Object.keys(schema.properties).length > 0) {
+      entry.properties = JSON.parse(JSON.stringify(schema.properties));
+    }
+    if (schema.extends) entry.extends = schema.extends;
+    const { include, exclude, newNoteFolder, newNoteName } = schema;
+    entry.options = JSON.parse(JSON.stringify({ include, exclude, newNoteFolder, newNoteName }));
+    const history = (schema.history ?? []).filter((e) => e.revisionId !== entry.revisionId);
+    history.push(entry);
+    schema.history = history.slice(-MAX_SCHEMA_HISTORY);
   }
 
   private buildChangeSummary(
@@ -1383,6 +6148,125 @@ export default class TypeSyncPlugin extends Plugin {
     };
   }
 
+  // Rebuilds pendingTypes from the notes themselves and returns the notes that are stuck.
+  private async collectPendingNotes(): Promise<PendingNote[]> {
+    const notes: PendingNote[] = [];
+    for (const f of this.getSyncedFiles()) {
+      const cached = this.snapshots.get(f.path);
+      if (!cached?.noteRev || cached.typeValues.length === 0) continue;
+      if (!this.isPendingSnapshot(f.path, cached)) continue;
+
+      // re-read: the cached snapshot may predate a TypeSync write
+      const snap = await this.buildSnapshot(f);
+      this.snapshots.set(f.path, snap);
+      if (!snap.noteRev || !this.isPendingSnapshot(f.path, snap)) continue;
+      notes.push({
+        file: f,
+        typeValues: snap.typeValues,
+        noteRev: snap.noteRev,
+        schemaRev: this.getEffectiveSchema(snap.typeValues)?.rev ?? null,
+      });
+    }
+
+    this.pendingTypes = new Set();
+    notes.forEach((n) => n.typeValues.forEach((t) => this.pendingTypes.add(t)));
+    this.updatePendingStatus();
+    return notes;
+  }
+
+  private isPendingSnapshot(path: string, snap: Snapshot): boolean {
+    if (this.isTemplatePath(path)) return false;
+    if (snap.typeValues.some((t) => !this.schemas[t])) return true;
+    const schema = this.getEffectiveSchema(snap.typeValues);
+    return !!schema && this.isNoteAheadOfSchema(snap.noteRev, schema.rev);
+  }
+
+  private updatePendingStatus(): void {
+    const el = this.pendingStatusEl;
+    if (!el) return;
+    const count = this.pendingTypes.size;
+    el.setText(count > 0 ? `TypeSync: ${count} Type${count === 1 ? "" : "s"} ahead of schema` : "");
+    el.toggle(count > 0);
+  }
+
+  private async openPendingNotes(): Promise<void> {
+    const notes = await this.collectPendingNotes();
+    new PendingNotesModal(
+      this.app,
+      notes,
+      (note) => {
+        this.adoptNoteAsSchema(note.file).catch((e) => console.error("TypeSync adopt error", e));
+      },
+      (pending) => {
+        this.pullNotesBackToSchema(pending.map((n) => n.file)).catch((e) => console.error("TypeSync pull back error", e));
+      }
+    ).open();
+  }
+
+  // The note's keys become its primary Type's schema, at a new revision, and propagate.
+  private async adoptNoteAsSchema(file: TFile): Promise<void> {
+    const snap = await this.buildSnapshot(file);
+    const typeValue = snap.typeValue;
+    if (!typeValue) return;
+    const ok = await this.promptYesNo(
+      `Make the properties of "${file.path}" the schema for Type "${snap.typeValues.join(" + ")}" and update all its notes?`,
+      "Adopt",
+      "Cancel"
+    );
+    if (!ok) return;
+
+    const schemasBefore = this.cloneSchemas();
+    const missing = snap.typeValues.filter((t) => !this.schemas[t]);
+    if (missing.length > 0) this.createSchemasFromNote(snap, missing);
+
+    const primary = this.schemas[typeValue]!;
+    if (!missing.includes(typeValue)) {
+      const otherKeys = this.keysOwnedBy([...snap.typeValues.slice(1), ...this.resolveTypeChain(typeValue).slice(0, -1)]);
+      const nextKeys = snap.keysOrdered.filter((k) => !otherKeys.has(k) && !INTERNAL_KEYS.has(k));
+      if (!nextKeys.includes(TYPE_KEY)) nextKeys.unshift(TYPE_KEY);
+      const added = nextKeys.filter((k) => !primary.keysOrdered.includes(k));
+      const removed = primary.keysOrdered.filter((k) => !nextKeys.includes(k));
+      const orderChanged = !this.valuesEqual(
+        primary.keysOrdered.filter((k) => nextKeys.includes(k)),
+        nextKeys.filter((k) => primary.keysOrdered.includes(k))
+      );
+      primary.keysOrdered = nextKeys;
+      this.updateSchemaRevision(primary, { added, removed, orderChanged });
+    }
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+
+    const chainTypes = this.expandTypeChains(snap.typeValues);
+    await this.runBulk({
+      title: `Adopting "${file.basename}" as Type "${typeValue}"`,
+      files: this.getFilesByTypes(chainTypes),
+      schemasBefore,
+      perFile: async (f) => {
+        await this.rewriteToSchema(f, this.pickMemberType(f, chainTypes), { preserveOverlapValues: true });
+      },
+      onDone: () => {
+        this.collectPendingNotes().catch((e) => console.error("TypeSync pending notes error", e));
+      },
+    });
+  }
+
+  // Rewrites notes to the local schema, which also stamps them with its (older) revision.
+  private async pullNotesBackToSchema(files: TFile[]): Promise<void> {
+    await this.runBulk({
+      title: `Pulling ${files.length} note(s) back to the local schema`,
+      files,
+      perFile: async (f) => {
+        const snap = await this.buildSnapshot(f);
+        if (!snap.typeValue || !this.getEffectiveSchema(snap.typeValues)) return;
+        await this.rewriteToSchema(f, snap.typeValue, { preserveOverlapValues: true });
+      },
+      onDone: (done, total, canceled, failures) => {
+        new Notice(`TypeSync: Pulled back ${done}/${total}${canceled ? " (canceled)" : ""}${failures ? ` • failures: ${failures}` : ""}`);
+        this.collectPendingNotes().catch((e) => console.error("TypeSync pending notes error", e));
+      },
+    });
+  }
+
   private async handleSchemaFileModify(file: TFile): Promise<void> {
     if (file.path !== this.schemaDataPath) return;
     if (this.ignoreNextSchemaReload) {
@@ -1391,19 +6275,554 @@ export default class TypeSyncPlugin extends Plugin {
     }
     const loaded = await this.loadData();
     if (loaded?.settings) {
-      this.settings = Object.assign({}, DEFAULT_SETTINGS, loaded.settings);
+      this.settings = this.normalizeSettings(Object.assign({}, DEFAULT_SETTINGS, loaded.settings));
     }
-    const nextSchemas = loaded?.schemas ?? loaded?.schemasByType ?? loaded?.schemas ?? {};
-    this.normalizeSchemas(nextSchemas);
+    const loadedSchemas = loaded?.schemas ?? loaded?.schemasByType ?? loaded?.schemas ?? {};
+    this.normalizeSchemas(loadedSchemas);
 
+    const { schemas: nextSchemas, needsSave } = await this.mergeLoadedSchemas(
+      loadedSchemas,
+      this.normalizeDeletedTypes(loaded?.deletedTypes)
+    );
     const changes = this.computeSchemaChangeNotices(this.schemas, nextSchemas);
     this.schemas = nextSchemas;
+    // the merge holds changes the synced file doesn't have yet
+    if (needsSave) await this.savePluginData();
 
     await this.updateLocalSchemaCache();
+    this.refreshSchemaViews();
+    this.scheduleSchemaNotesWrite();
+    this.revalidateAll();
 
     if (changes.length > 0) {
       new SchemaUpdateInfoModal(this.app, changes).open();
     }
+
+    await this.catchUpPendingNotes();
+  }
+
+  // After a schema sync, notes that were ahead may now be level with or behind the schema.
+  private async catchUpPendingNotes(): Promise<void> {
+    if (this.pendingTypes.size === 0) return;
+    const candidates = this.getSyncedFiles().filter((f) =>
+      (this.snapshots.get(f.path)?.typeValues ?? []).some((t) => this.pendingTypes.has(t))
+    );
+
+    await this.collectPendingNotes();
+    const behind: TFile[] = [];
+    for (const f of candidates) {
+      const snap = this.snapshots.get(f.path);
+      const schema = snap ? this.getEffectiveSchema(snap.typeValues) : null;
+      if (snap?.typeValue && schema && this.isSchemaAheadOfNote(schema.rev, snap.noteRev)) behind.push(f);
+    }
+    if (behind.length === 0) return;
+
+    await this.runBulk({
+      title: "Updating notes to the synced schema",
+      files: behind,
+      perFile: async (f) => {
+        const snap = await this.buildSnapshot(f);
+        if (!snap.typeValue) return;
+        await this.rewriteToSchema(f, snap.typeValue, { preserveOverlapValues: true });
+      },
+    });
+  }
+
+  // Three-way merge of a synced data.json against the local schemas, using the newest revision
+  // both histories share as the common ancestor. A side that already contains the other's
+  // revision simply wins. A Type missing on one side is dropped only when the other side's
+  // tombstone covers its revision; otherwise it was created (or edited) after the deletion and is kept.
+  private async mergeLoadedSchemas(
+    remote: Record<TypeName, TypeSchema>,
+    remoteDeleted: Record<TypeName, SchemaRevision>
+  ): Promise<{ schemas: Record<TypeName, TypeSchema>; needsSave: boolean }> {
+    const merged: Record<TypeName, TypeSchema> = { ...remote };
+    const diverged: TypeName[] = [];
+    let needsSave = false;
+
+    const deleted: Record<TypeName, SchemaRevision> = { ...remoteDeleted };
+    for (const [t, rev] of Object.entries(this.deletedTypes)) {
+      const theirs = deleted[t];
+      if (theirs && this.compareRevisions(theirs, rev) >= 0) continue;
+      deleted[t] = rev;
+      needsSave = true; // the synced file doesn't know about this deletion yet
+    }
+    this.deletedTypes = deleted;
+    const isDeleted = (t: TypeName, schema: TypeSchema) => !!deleted[t] && this.compareRevisions(schema.rev, deleted[t]!) <= 0;
+
+    for (const [typeValue, theirs] of Object.entries(remote)) {
+      if (!this.schemas[typeValue] && isDeleted(typeValue, theirs)) {
+        delete merged[typeValue]; // deleted here
+        needsSave = true;
+      }
+    }
+
+    for (const [typeValue, local] of Object.entries(this.schemas)) {
+      const theirs = remote[typeValue];
+      if (!theirs) {
+        if (isDeleted(typeValue, local)) continue; // deleted elsewhere
+        merged[typeValue] = local;
+        needsSave = true;
+        continue;
+      }
+      if (local.rev.revisionId === theirs.rev.revisionId) continue;
+      if ((theirs.history ?? []).some((e) => e.revisionId === local.rev.revisionId)) continue; // remote is ahead
+      if ((local.history ?? []).some((e) => e.revisionId === theirs.rev.revisionId)) {
+        merged[typeValue] = local; // local is ahead
+        needsSave = true;
+        continue;
+      }
+      diverged.push(typeValue);
+    }
+    if (diverged.length === 0) return { schemas: merged, needsSave };
+
+    // first pass collects conflicts, second pass applies the user's choices
+    const conflicts: MergeConflict[] = [];
+    for (const t of diverged) {
+      this.mergeKeyLists(t, this.schemas[t]!, remote[t]!, (c) => {
+        conflicts.push(c);
+        return "remote";
+      });
+    }
+
+    let choices: MergeSide[] | null = [];
+    if (conflicts.length > 0) {
+      this.schemaLocked = true;
+      try {
+        choices = await new Promise<MergeSide[] | null>((resolve) => {
+          new SchemaMergeConflictModal(this.app, conflicts, resolve).open();
+        });
+      } finally {
+        this.schemaLocked = false;
+      }
+    }
+    if (!choices) return { schemas: merged, needsSave }; // take synced schemas as they are
+
+    let index = 0;
+    for (const t of diverged) {
+      const local = this.schemas[t]!;
+      const theirs = remote[t]!;
+      const keysOrdered = this.mergeKeyLists(t, local, theirs, () => choices![index++] ?? "remote");
+      const base = this.findCommonAncestor(local, theirs);
+      const newer = this.compareRevisions(local.rev, theirs.rev) > 0 ? local : theirs;
+
+      const properties: Record<string, PropertyDefinition> = {};
+      for (const k of keysOrdered) {
+        const def = this.pickMergedValue(local.properties?.[k], theirs.properties?.[k], base?.properties?.[k], newer === local);
+        if (def && Object.keys(def).length > 0) properties[k] = def;
+      }
+      const parent = this.pickMergedValue(local.extends, theirs.extends, base?.extends, newer === local);
+
+      // both histories, so either device finds this merge as the ancestor next time
+      const history = [...(theirs.history ?? [])];
+      for (const e of local.history ?? []) {
+        if (!history.some((h) => h.revisionId === e.revisionId)) history.push(e);
+      }
+      history.sort((a, b) => a.updatedAt - b.updatedAt);
+
+      const migrations = [...(theirs.migrations ?? [])];
+      for (const m of local.migrations ?? []) {
+        if (!migrations.some((o) => o.rev.revisionId === m.rev.revisionId)) migrations.push(m);
+      }
+      migrations.sort((a, b) => this.compareRevisions(a.rev, b.rev));
+
+      const schema: TypeSchema = { keysOrdered, rev: theirs.rev, lastChangeSummary: theirs.lastChangeSummary, history };
+      if (Object.keys(properties).length > 0) schema.properties = properties;
+      if (migrations.length > 0) schema.migrations = migrations;
+      if (parent) schema.extends = parent;
+      // without a recorded base for the options, the newer revision's options win as a whole
+      const baseOptions = base?.options;
+      const mergeOption = <K extends SchemaOptionField>(field: K): void => {
+        const value = baseOptions
+          ? this.pickMergedValue<TypeSchema[K]>(local[field], theirs[field], baseOptions[field], newer === local)
+          : newer[field];
+        if (value !== undefined) schema[field] = value;
+      };
+      SCHEMA_OPTION_FIELDS.forEach(mergeOption);
+      this.updateSchemaRevision(schema, {
+        added: keysOrdered.filter((k) => !theirs.keysOrdered.includes(k)),
+        removed: theirs.keysOrdered.filter((k) => !keysOrdered.includes(k)),
+        orderChanged: !this.valuesEqual(
+          keysOrdered.filter((k) => theirs.keysOrdered.includes(k)),
+          theirs.keysOrdered.filter((k) => keysOrdered.includes(k))
+        ),
+      });
+      merged[t] = schema;
+      needsSave = true;
+    }
+
+    return { schemas: merged, needsSave };
+  }
+
+  private removeSchema(typeValue: TypeName): void {
+    const schema = this.schemas[typeValue];
+    if (!schema) return;
+    this.deletedTypes[typeValue] = { ...schema.rev };
+    delete this.schemas[typeValue];
+  }
+
+  private normalizeDeletedTypes(raw: unknown): Record<TypeName, SchemaRevision> {
+    const out: Record<TypeName, SchemaRevision> = {};
+    if (!raw || typeof raw !== "object") return out;
+    for (const [t, rev] of Object.entries(raw as Record<string, any>)) {
+      if (rev && typeof rev.updatedAt === "number" && typeof rev.revisionId === "string") {
+        out[t] = { updatedAt: rev.updatedAt, revisionId: rev.revisionId };
+      }
+    }
+    return out;
+  }
+
+  // A key counts as deleted on a side only when that side's history records the removal after the ancestor.
+  private removedSince(schema: TypeSchema, base: SchemaHistoryEntry, key: string): boolean {
+    return (schema.history ?? []).some((e) => this.compareRevisions(e, base) > 0 && e.removed.includes(key));
+  }
+
+  private findCommonAncestor(local: TypeSchema, remote: TypeSchema): SchemaHistoryEntry | null {
+    const remoteIds = new Set((remote.history ?? []).map((e) => e.revisionId));
+    const localHistory = local.history ?? [];
+    for (let i = localHistory.length - 1; i >= 0; i--) {
+      if (remoteIds.has(localHistory[i]!.revisionId)) return localHistory[i]!;
+    }
+    return null;
+  }
+
+  // A value changed on one side only takes that side; changed on both, the newer revision wins.
+  private pickMergedValue<T>(local: T | undefined, remote: T | undefined, base: T | undefined, localIsNewer: boolean): T | undefined {
+    if (this.valuesEqual(local ?? null, remote ?? null)) return local;
+    if (this.valuesEqual(local ?? null, base ?? null)) return remote;
+    if (this.valuesEqual(remote ?? null, base ?? null)) return local;
+    return localIsNewer ? local : remote;
+  }
+
+  private mergeKeyLists(
+    typeValue: TypeName,
+    local: TypeSchema,
+    remote: TypeSchema,
+    choose: (conflict: MergeConflict) => MergeSide
+  ): string[] {
+    const baseEntry = this.findCommonAncestor(local, remote);
+    const base = baseEntry?.keysOrdered ?? null;
+    const l = local.keysOrdered;
+    const r = remote.keysOrdered;
+
+    // position of key among the keys both lists share
+    const movedFromBase = (side: string[], key: string): boolean => {
+      if (!base) return false;
+      const sideCommon = side.filter((k) => base.includes(k));
+      const baseCommon = base.filter((k) => side.includes(k));
+      return sideCommon.indexOf(key) !== baseCommon.indexOf(key);
+    };
+
+    const result: string[] = [];
+    for (const key of [...l, ...r.filter((k) => !l.includes(k))]) {
+      const inL = l.includes(key);
+      const inR = r.includes(key);
+      let keep: boolean;
+      if (key === TYPE_KEY || (inL && inR)) {
+        keep = true;
+      } else if (base && !base.includes(key)) {
+        keep = true; // added on one side
+      } else if (baseEntry && !this.removedSince(inL ? remote : local, baseEntry, key)) {
+        keep = true; // the side without it never removed it, so the ancestor entry already held an addition
+      } else if (base && !movedFromBase(inL ? l : r, key)) {
+        keep = false; // removed on one side, untouched on the other
+      } else {
+        // no ancestor to tell an addition from a removal, or removed on one side and moved on the other
+        keep = choose({ kind: "presence", typeValue, key, localHas: inL }) === "local" ? inL : inR;
+      }
+      if (keep) result.push(key);
+    }
+
+    // keys on both sides are always kept, so the order check doesn't depend on the choices above
+    const localOrder = l.filter((k) => r.includes(k));
+    const remoteOrder = r.filter((k) => l.includes(k));
+    let primary: string[] = l;
+    let secondary: string[] = r;
+    if (!this.valuesEqual(localOrder, remoteOrder)) {
+      const baseOrder = base ? base.filter((k) => localOrder.includes(k)) : null;
+      const localMoved = !baseOrder || !this.valuesEqual(localOrder, baseOrder);
+      const remoteMoved = !baseOrder || !this.valuesEqual(remoteOrder, baseOrder);
+      const side: MergeSide =
+        localMoved && remoteMoved
+          ? choose({ kind: "order", typeValue, local: localOrder, remote: remoteOrder })
+          : remoteMoved
+            ? "remote"
+            : "local";
+      if (side === "remote") {
+        primary = r;
+        secondary = l;
+      }
+    }
+
+    // primary order first, then each remaining key right after its predecessor on its own side
+    const ordered = primary.filter((k) => result.includes(k));
+    for (const key of secondary) {
+      if (!result.includes(key) || ordered.includes(key)) continue;
+      const idx = secondary.indexOf(key);
+      let at = ordered.length;
+      for (let i = idx - 1; i >= 0; i--) {
+        const pos = ordered.indexOf(secondary[i]!);
+        if (pos !== -1) {
+          at = pos + 1;
+          break;
+        }
+      }
+      ordered.splice(at, 0, key);
+    }
+    if (!ordered.includes(TYPE_KEY)) ordered.unshift(TYPE_KEY);
+    return ordered;
+  }
+
+  private isTemplatePath(path: string): boolean {
+    const folder = this.settings.templateFolder;
+    return !!folder && path.startsWith(`${folder}/`);
+  }
+
+  isPathSynced(path: string): boolean {
+    if (matchesAnyGlob(path, this.settings.excludeGlobs)) return false;
+    return this.settings.includeGlobs.length === 0 || matchesAnyGlob(path, this.settings.includeGlobs);
+  }
+
+  private isPathInTypeScope(path: string, typeValue: TypeName): boolean {
+    const schema = this.schemas[typeValue];
+    if (!schema) return true;
+    if (matchesAnyGlob(path, schema.exclude ?? [])) return false;
+    return !schema.include?.length || matchesAnyGlob(path, schema.include);
+  }
+
+  // Markdown files inside the global sync scope; every vault-wide scan starts here.
+  private getSyncedFiles(): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter((f) => this.isPathSynced(f.path) && !this.isSchemaNotePath(f.path));
+  }
+
+  async setNewNoteOptions(typeValue: TypeName, folder: string, name: string): Promise<void> {
+    const schema = this.schemas[typeValue];
+    if (!schema) return;
+    const cleanFolder = folder.trim().replace(/^\/+|\/+$/g, "");
+    if ((schema.newNoteFolder ?? "") === cleanFolder && (schema.newNoteName ?? "") === name.trim()) return;
+    if (cleanFolder) schema.newNoteFolder = cleanFolder;
+    else delete schema.newNoteFolder;
+    if (name.trim()) schema.newNoteName = name.trim();
+    else delete schema.newNoteName;
+    // a new revision, so a synced copy with the old options doesn't replace this edit
+    this.updateSchemaRevision(schema, { added: [], removed: [], orderChanged: false });
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+  }
+
+  // Creates an empty note and lets rewriteToSchema fill in keys, defaults and revision markers.
+  async createNoteOfType(typeValue: TypeName): Promise<void> {
+    const schema = this.schemas[typeValue];
+    if (!schema) return;
+
+    const folderRule = Object.entries(this.settings.typeFolders).find(([, t]) => t === typeValue)?.[0];
+    const activePath = this.app.workspace.getActiveFile()?.path ?? "";
+    const folder = schema.newNoteFolder
+      ? this.expandNamePattern(schema.newNoteFolder, typeValue, true)
+      : folderRule ?? this.app.fileManager.getNewFileParent(activePath).path;
+    const baseName = this.expandNamePattern(schema.newNoteName ?? DEFAULT_NEW_NOTE_NAME, typeValue, false) || typeValue;
+
+    const dir = folder === "/" ? "" : folder;
+    let path = normalizePath(dir ? `${dir}/${baseName}.md` : `${baseName}.md`);
+    for (let i = 1; this.app.vault.getAbstractFileByPath(path); i++) {
+      path = normalizePath(dir ? `${dir}/${baseName} ${i}.md` : `${baseName} ${i}.md`);
+    }
+    if (!this.isPathSynced(path) || !this.isPathInTypeScope(path, typeValue)) {
+      new Notice(`TypeSync: "${path}" is outside the paths synced for Type "${typeValue}".`);
+      return;
+    }
+    // only once the note is known to be kept, so a refused note leaves no empty folder behind
+    if (dir && !(await this.app.vault.adapter.exists(dir))) await this.app.vault.createFolder(dir);
+
+    this.suppressOnce(path);
+    const file = await this.app.vault.create(path, "");
+    await this.rewriteToSchema(file, typeValue, { preserveOverlapValues: true });
+    await this.app.workspace.getLeaf(false).openFile(file);
+  }
+
+  private expandNamePattern(pattern: string, typeValue: TypeName, allowFolders: boolean): string {
+    const expanded = pattern.replace(/\{\{\s*(type|date|time)(?::([^}]+))?\s*\}\}/g, (_m, token: string, format?: string) => {
+      if (token === "type") return typeValue;
+      if (token === "date") return moment().format(format?.trim() || "YYYY-MM-DD");
+      return moment().format(format?.trim() || "HHmm");
+    });
+    // characters Obsidian doesn't allow in file names
+    const cleaned = expanded.replace(allowFolders ? /[\\:*?"<>|#^[\]]/g : /[\\/:*?"<>|#^[\]]/g, "-");
+    return cleaned.trim().replace(/^\/+|\/+$/g, "");
+  }
+
+  async setTypeScope(typeValue: TypeName, include: string[], exclude: string[]): Promise<void> {
+    const schema = this.schemas[typeValue];
+    if (!schema) return;
+    if (this.valuesEqual(schema.include ?? [], include) && this.valuesEqual(schema.exclude ?? [], exclude)) return;
+    if (include.length > 0) schema.include = include;
+    else delete schema.include;
+    if (exclude.length > 0) schema.exclude = exclude;
+    else delete schema.exclude;
+    // a new revision, so a synced copy with the old scope doesn't replace this edit
+    this.updateSchemaRevision(schema, { added: [], removed: [], orderChanged: false });
+    await this.savePluginData();
+    await this.updateLocalSchemaCache();
+    this.scheduleSnapshotRefresh();
+  }
+
+  private isSchemaNotePath(path: string): boolean {
+    const folder = this.settings.schemaNotesFolder;
+    return !!folder && path.startsWith(`${folder}/`) && path.endsWith(".md");
+  }
+
+  private schemaNotePath(typeValue: TypeName): string {
+    return normalizePath(`${this.settings.schemaNotesFolder}/${schemaNoteFileName(typeValue)}.md`);
+  }
+
+  private getSchemaNote(typeValue: TypeName): TFile | null {
+    if (!this.settings.schemaNotesFolder) return null;
+    const file = this.app.vault.getAbstractFileByPath(this.schemaNotePath(typeValue));
+    return file instanceof TFile ? file : null;
+  }
+
+  // Schema notes mirror data.json: keys (without Type), parent and property definitions in the
+  // frontmatter, plus the schema revision so edits can be told apart from our own writes.
+  // A Type whose name isn't a usable file name also records it under "type". Only notes whose
+  // schema changed since the last write are touched; notes of deleted Types go to the trash.
+  // Failures are logged, never thrown: the schemas themselves are already saved.
+  private async writeSchemaNotes(): Promise<void> {
+    const folder = this.settings.schemaNotesFolder;
+    if (!folder) return;
+    try {
+      if (!(await this.app.vault.adapter.exists(folder))) await this.app.vault.createFolder(folder);
+    } catch (e) {
+      console.error("TypeSync schema notes folder error", folder, e);
+      return;
+    }
+
+    const written = new Set<string>();
+    let failures = 0;
+    for (const [typeValue, schema] of Object.entries(this.schemas)) {
+      const path = this.schemaNotePath(typeValue);
+      if (written.has(path)) {
+        console.warn(`TypeSync: schema note "${path}" is shared by several Types; skipping "${typeValue}".`);
+        continue;
+      }
+      written.add(path);
+      const stamp = `${path}\n${schema.rev.revisionId}`;
+      if (this.writtenSchemaNotes.get(typeValue) === stamp && this.getSchemaNote(typeValue)) continue;
+
+      const fm: Record<string, any> = { keys: schema.keysOrdered.filter((k) => k !== TYPE_KEY) };
+      if (schemaNoteFileName(typeValue) !== typeValue) fm.type = typeValue;
+      if (schema.extends) fm.extends = schema.extends;
+      if (schema.properties && Object.keys(schema.properties).length > 0) fm.properties = schema.properties;
+      fm[REV_AT_KEY] = new Date(schema.rev.updatedAt).toISOString();
+      fm[REV_ID_KEY] = schema.rev.revisionId;
+
+      try {
+        const existing = this.getSchemaNote(typeValue);
+        if (!existing) {
+          this.suppressOnce(path);
+          await this.app.vault.create(path, this.buildContentWithFrontmatter(`\nSchema for notes of Type "${typeValue}".\n`, fm));
+        } else {
+          const content = await this.app.vault.read(existing);
+          const next = this.buildContentWithFrontmatter(content, fm);
+          if (next !== content) {
+            this.suppressOnce(existing.path);
+            await this.app.vault.modify(existing, next);
+          }
+        }
+        this.writtenSchemaNotes.set(typeValue, stamp);
+      } catch (e) {
+        failures++;
+        console.error("TypeSync schema note write error", path, e);
+      }
+    }
+
+    const folderFile = this.app.vault.getAbstractFileByPath(folder);
+    for (const file of folderFile instanceof TFolder ? [...folderFile.children] : []) {
+      if (!(file instanceof TFile) || !this.isSchemaNotePath(file.path) || written.has(file.path)) continue;
+      const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!fm || !Array.isArray(fm.keys)) continue;
+      const typeValue = typeof fm.type === "string" && fm.type.trim() ? fm.type.trim() : file.basename;
+      if (this.schemas[typeValue] || !this.deletedTypes[typeValue]) continue;
+      try {
+        await this.app.vault.trash(file, true);
+      } catch (e) {
+        failures++;
+        console.error("TypeSync schema note trash error", file.path, e);
+      }
+    }
+    if (failures > 0) new Notice(`TypeSync: could not write ${failures} schema note(s). See console for details.`);
+  }
+
+  // An edited schema note goes through the same path as the schema editor.
+  private async handleSchemaNoteModify(file: TFile): Promise<void> {
+    if (this.schemaLocked) return;
+
+    const content = await this.app.vault.read(file);
+    const { frontmatterText, hasFrontmatter } = this.extractFrontmatter(content);
+    let fm: Record<string, any> = {};
+    try {
+      fm = hasFrontmatter ? (parseYaml(frontmatterText) ?? {}) : {};
+    } catch {
+      new Notice(`TypeSync: the frontmatter of "${file.path}" is not valid YAML.`);
+      return;
+    }
+    if (!Array.isArray(fm.keys)) return;
+
+    const typeValue = typeof fm.type === "string" && fm.type.trim() ? fm.type.trim() : file.basename;
+    const noteKeys: string[] = fm.keys.map((k: unknown) => String(k).trim()).filter((k: string) => k.length > 0 && !INTERNAL_KEYS.has(k));
+    // the note lists keys without Type; put it back after the key it follows in the schema
+    if (!noteKeys.includes(TYPE_KEY)) {
+      const cur = this.schemas[typeValue]?.keysOrdered ?? [];
+      const before = cur.slice(0, Math.max(cur.indexOf(TYPE_KEY), 0)).filter((k) => noteKeys.includes(k));
+      const prev = before[before.length - 1];
+      noteKeys.splice(prev === undefined ? 0 : noteKeys.indexOf(prev) + 1, 0, TYPE_KEY);
+    }
+    const parsed: Record<TypeName, TypeSchema> = {
+      [typeValue]: {
+        keysOrdered: noteKeys,
+        rev: this.createSchemaRevision(),
+        properties: fm.properties,
+        extends: typeof fm.extends === "string" ? fm.extends.trim() || undefined : undefined,
+      },
+    };
+    this.normalizeSchemas(parsed);
+    const next = parsed[typeValue]!;
+    const nextKeys = next.keysOrdered.filter((k, i, all) => all.indexOf(k) === i);
+
+    if (!this.schemas[typeValue] && this.deletedTypes[typeValue]) {
+      new Notice(`TypeSync: Type "${typeValue}" was deleted; its schema note goes to the trash. Create the Type again to bring it back.`);
+      this.scheduleSchemaNotesWrite();
+      return;
+    }
+    if (!this.schemas[typeValue] && !(await this.createType(typeValue))) return;
+    const schema = this.schemas[typeValue]!;
+
+    const added = nextKeys.filter((k) => !schema.keysOrdered.includes(k));
+    const removed = schema.keysOrdered.filter((k) => !nextKeys.includes(k));
+    const unchanged =
+      added.length === 0 &&
+      removed.length === 0 &&
+      this.valuesEqual(schema.keysOrdered, nextKeys) &&
+      this.valuesEqual(schema.properties ?? {}, next.properties ?? {}) &&
+      (schema.extends ?? null) === (next.extends ?? null);
+    if (unchanged) return;
+
+    if (added.length > 0 || removed.length > 0) {
+      const decision = await this.promptSchemaChange(typeValue, added, removed);
+      if (decision.kind !== "apply") {
+        this.writtenSchemaNotes.delete(typeValue);
+        await this.writeSchemaNotes(); // put the note back to the current schema
+        return;
+      }
+    }
+
+    // one removed + one added key reads as a rename, like an edit in a note
+    const renamed = removed.length === 1 && added.length === 1 ? { from: removed[0]!, to: added[0]! } : null;
+    const drafts: SchemaKeyDraft[] = nextKeys.map((k) => ({
+      key: k,
+      from: schema.keysOrdered.includes(k) ? k : renamed?.to === k ? renamed.from : null,
+      def: { ...(next.properties?.[k] ?? {}) },
+    }));
+    await this.applySchemaEdit(typeValue, drafts, next.extends ?? null);
   }
 
   private computeSchemaChangeNotices(
@@ -1420,6 +6839,7 @@ export default class TypeSyncPlugin extends Plugin {
           added: nextSchema.keysOrdered.filter((k) => k !== TYPE_KEY),
           removed: [],
           orderChanged: false,
+          inherited: this.getInheritedKeys(typeValue, next),
         });
         continue;
       }
@@ -1446,6 +6866,7 @@ export default class TypeSyncPlugin extends Plugin {
         added: added.filter((k) => k !== TYPE_KEY),
         removed: removed.filter((k) => k !== TYPE_KEY),
         orderChanged,
+        inherited: this.getInheritedKeys(typeValue, next),
       });
     }
 